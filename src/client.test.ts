@@ -0,0 +1,125 @@
+import {
+  getPageModuleContext,
+  getPageModuleRegistry,
+  hydratePageModules,
+  parsePageModuleContext,
+} from './client';
+
+import {ExecutionContext} from 'ava';
+import test from 'ava';
+
+// The client runtime runs in the browser. Its global object is stubbed, and
+// elements are faked, as tests don't run with a DOM.
+(globalThis as any).window = {};
+
+/** A `<page-module>` element, optionally with a serialized context. */
+class FakePageModuleElement {
+  attributes: Map<string, string>;
+  context?: string;
+  selectors: string[];
+
+  constructor(partial: string, context?: any) {
+    this.attributes = new Map([
+      ['partial', partial],
+      ['position', '1'],
+    ]);
+    this.context = context === undefined ? undefined : JSON.stringify(context);
+    this.selectors = [];
+  }
+
+  getAttribute(name: string) {
+    return this.attributes.get(name) ?? null;
+  }
+
+  hasAttribute(name: string) {
+    return this.attributes.has(name);
+  }
+
+  setAttribute(name: string, value: string) {
+    this.attributes.set(name, value);
+  }
+
+  querySelector(selector: string) {
+    this.selectors.push(selector);
+    return this.context === undefined ? null : {textContent: this.context};
+  }
+}
+
+/** Returns a root containing the elements, as used by `hydratePageModules`. */
+const createRoot = (elements: FakePageModuleElement[]) => {
+  return ({querySelectorAll: () => elements} as unknown) as ParentNode;
+};
+
+test('getPageModuleRegistry', (t: ExecutionContext) => {
+  const global: any = {};
+  const registry = getPageModuleRegistry(global);
+  t.is(global.pageBuilderModules, registry);
+  // Another bundle's copy of the runtime shares the registry.
+  const otherBundleRegistry = getPageModuleRegistry(global);
+  t.is(otherBundleRegistry, registry);
+  t.is(getPageModuleRegistry(), (window as any).pageBuilderModules);
+});
+
+test('getPageModuleContext', (t: ExecutionContext) => {
+  const element = new FakePageModuleElement('hero', {title: 'Hello'});
+  t.deepEqual(getPageModuleContext(element as any), {title: 'Hello'});
+  t.deepEqual(element.selectors, [
+    ':scope > page-module-context > script[type="application/json"]',
+  ]);
+  t.is(
+    getPageModuleContext(new FakePageModuleElement('hero') as any),
+    undefined
+  );
+  t.is(parsePageModuleContext(''), undefined);
+  t.is(parsePageModuleContext(null), undefined);
+  t.deepEqual(parsePageModuleContext('{"title": "\\u003c/script>"}'), {
+    title: '</script>',
+  });
+});
+
+test('hydratePageModules', async (t: ExecutionContext) => {
+  const calls: any[] = [];
+  getPageModuleRegistry().set('idempotent', {
+    hydrate: (element, context) => {
+      calls.push(context);
+    },
+  });
+  const element = new FakePageModuleElement('idempotent', {title: 'Hello'});
+  const unregistered = new FakePageModuleElement('unregistered');
+  const root = createRoot([element, unregistered]);
+  await hydratePageModules(root);
+  await hydratePageModules(root);
+  t.deepEqual(calls, [{title: 'Hello'}]);
+  t.true(element.hasAttribute('hydrated'));
+  t.false(unregistered.hasAttribute('hydrated'));
+});
+
+test('hydratePageModules errors', async (t: ExecutionContext) => {
+  const errors: any[][] = [];
+  const consoleError = console.error;
+  console.error = (...args: any[]) => errors.push(args);
+  t.teardown(() => {
+    console.error = consoleError;
+  });
+  const hydrated: string[] = [];
+  getPageModuleRegistry().set('throws', {
+    hydrate: async () => {
+      throw new Error('Failed');
+    },
+  });
+  getPageModuleRegistry().set('succeeds', {
+    hydrate: () => {
+      hydrated.push('succeeds');
+    },
+  });
+  await hydratePageModules(
+    createRoot([
+      new FakePageModuleElement('throws'),
+      new FakePageModuleElement('succeeds'),
+    ])
+  );
+  t.deepEqual(hydrated, ['succeeds']);
+  t.is(errors.length, 1);
+  t.is(errors[0][0], 'Error hydrating page module: throws (position 1)');
+  t.is(errors[0][1].message, 'Failed');
+});
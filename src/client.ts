@@ -0,0 +1,113 @@
+/**
+ * Client runtime for hydrating partials in the browser. Import it from a
+ * partial's JS and register the partial by name:
+ *
+ * ```
+ * import {definePageModule} from '@amagaki/amagaki-plugin-page-builder/dist/client';
+ *
+ * definePageModule('hero', {
+ *   hydrate(element, context) {
+ *     element.querySelector('button').addEventListener('click', ...);
+ *   },
+ * });
+ * ```
+ *
+ * Each `<page-module>` element for the partial is hydrated with the partial's
+ * context, serialized by the page builder into the `<page-module-context>`
+ * element. Context is only serialized when `includeContext` is enabled
+ * (globally, or per partial), otherwise `context` is `undefined`.
+ */
+
+export interface PageModuleDefinition<T = any> {
+  /** Makes a partial interactive, given its element and its context. */
+  hydrate: (element: HTMLElement, context: T | undefined) => void | Promise<void>;
+}
+
+/**
+ * Returns the registry of page modules. Stored on the global object
+ * (`window`), as each partial's JS is typically bundled separately, with its
+ * own copy of this module.
+ */
+export const getPageModuleRegistry = (
+  global: {pageBuilderModules?: Map<string, PageModuleDefinition>} = window as any
+) => {
+  if (!global.pageBuilderModules) {
+    global.pageBuilderModules = new Map();
+  }
+  return global.pageBuilderModules;
+};
+
+/** Parses a serialized context, returning `undefined` if there's none. */
+export const parsePageModuleContext = <T = any>(
+  json?: string | null
+): T | undefined => {
+  return json ? JSON.parse(json) : undefined;
+};
+
+/**
+ * Returns the context serialized for a `<page-module>` element, if any. Only
+ * the element's own context is used, not that of nested page modules.
+ */
+export const getPageModuleContext = <T = any>(
+  element: HTMLElement
+): T | undefined => {
+  const script = element.querySelector(
+    ':scope > page-module-context > script[type="application/json"]'
+  );
+  return parsePageModuleContext<T>(script?.textContent);
+};
+
+const hydrate = async (
+  element: HTMLElement,
+  definition: PageModuleDefinition
+) => {
+  if (element.hasAttribute('hydrated')) {
+    return;
+  }
+  element.setAttribute('hydrated', '');
+  try {
+    await definition.hydrate(element, getPageModuleContext(element));
+  } catch (err) {
+    console.error(
+      `Error hydrating page module: ${element.getAttribute('partial')} (position ${element.getAttribute('position')})`,
+      err
+    );
+  }
+};
+
+/**
+ * Hydrates every `<page-module>` element within `root` whose partial has been
+ * registered and that has not yet been hydrated.
+ */
+export const hydratePageModules = (root: ParentNode = document) => {
+  const registry = getPageModuleRegistry();
+  const elements = root.querySelectorAll<HTMLElement>('page-module[partial]');
+  return Promise.all(
+    Array.from(elements).map(element => {
+      const definition = registry.get(element.getAttribute('partial') ?? '');
+      return definition ? hydrate(element, definition) : undefined;
+    })
+  );
+};
+
+/**
+ * Registers a partial's hydrator and hydrates the partial's elements once the
+ * document has loaded.
+ */
+export const definePageModule = <T = any>(
+  name: string,
+  definition: PageModuleDefinition<T>
+) => {
+  getPageModuleRegistry().set(name, definition);
+  const run = () => {
+    const elements = document.querySelectorAll<HTMLElement>(
+      `page-module[partial="${CSS.escape(name)}"]`
+    );
+    Array.from(elements).forEach(element => hydrate(element, definition));
+  };
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', run);
+  } else {
+    run();
+  }
+};
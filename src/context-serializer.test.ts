@@ -0,0 +1,52 @@
+import {ExecutionContext} from 'ava';
+import {Pod} from '@amagaki/amagaki';
+import {serializeContext} from './context-serializer';
+import test from 'ava';
+
+test('serializeContext', async (t: ExecutionContext) => {
+  const partial: any = {
+    partial: 'hero',
+    title: '</script><script>alert(1)</script>',
+    nested: {a: {b: {c: 'deep'}}},
+  };
+  partial.self = partial;
+  const result = JSON.parse(serializeContext(partial, {maxDepth: 3}));
+  t.deepEqual(result, {
+    partial: 'hero',
+    title: '</script><script>alert(1)</script>',
+    nested: {a: {b: '[Max depth]'}},
+    self: '[Circular]',
+  });
+  t.false(serializeContext(partial).includes('</script>'));
+  t.is(partial.self, partial);
+});
+
+test('serializeContext fields', async (t: ExecutionContext) => {
+  const partial = {partial: 'hero', title: 'Title', body: 'Body', image: {}};
+  t.deepEqual(
+    JSON.parse(
+      serializeContext(partial, {
+        include: ['partial', 'title', 'body'],
+        exclude: ['body'],
+      })
+    ),
+    {partial: 'hero', title: 'Title'}
+  );
+});
+
+test('serializeContext documents', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const doc = pod.doc('/content/pages/index.yaml');
+  t.deepEqual(JSON.parse(serializeContext({doc})), {
+    doc: {
+      podPath: '/content/pages/index.yaml',
+      locale: 'en',
+      url: 'http://localhost/pages/',
+    },
+  });
+  const result = JSON.parse(
+    serializeContext({doc}, {includeDocumentFields: true})
+  );
+  t.is(result.doc.fields.title, 'Homepage');
+});
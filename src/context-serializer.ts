@@ -0,0 +1,109 @@
+import {DataType, Document, Locale, Url} from '@amagaki/amagaki';
+
+/**
+ * Options for serializing a partial's context into its `<page-module-context>`
+ * element.
+ */
+export interface ContextSerializerOptions {
+  /**
+   * The maximum depth of nested values. Deeper values are replaced with
+   * `"[Max depth]"`. Default: 10
+   */
+  maxDepth?: number;
+
+  /**
+   * Whether to include the fields of documents referenced by the context.
+   * Otherwise, documents are serialized as references (`podPath`, `locale`
+   * and `url`). Default: false
+   */
+  includeDocumentFields?: boolean;
+
+  /** If set, only these top-level fields are serialized. */
+  include?: string[];
+
+  /** Top-level fields to omit. */
+  exclude?: string[];
+}
+
+const DEFAULT_MAX_DEPTH = 10;
+
+const toJsonValue = (
+  value: any,
+  options: ContextSerializerOptions,
+  depth: number,
+  ancestors: any[]
+): any => {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol'
+      ? undefined
+      : value;
+  }
+  if (value.constructor?.name === 'Pod' && value.root) {
+    return undefined;
+  }
+  if (value.constructor?.name === 'Locale' && value.podPath) {
+    return (value as Locale).id;
+  }
+  if (value.constructor?.name === 'Url' && value.podPath) {
+    return (value as Url).toString();
+  }
+  if (typeof value.toJSON === 'function') {
+    return value.toJSON();
+  }
+  if (ancestors.includes(value)) {
+    return '[Circular]';
+  }
+  if (depth >= (options.maxDepth ?? DEFAULT_MAX_DEPTH)) {
+    return '[Max depth]';
+  }
+  const nextAncestors = [...ancestors, value];
+  if (DataType.isDocument(value)) {
+    const doc = value as Document;
+    return {
+      podPath: doc.podPath,
+      locale: doc.locale.id,
+      url: doc.url?.toString(),
+      ...(options.includeDocumentFields
+        ? {fields: toJsonValue(doc.fields, options, depth + 1, nextAncestors)}
+        : {}),
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => {
+      const result = toJsonValue(item, options, depth + 1, nextAncestors);
+      return result === undefined ? null : result;
+    });
+  }
+  const result: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (depth === 0) {
+      if (options.include && !options.include.includes(key)) {
+        continue;
+      }
+      if (options.exclude?.includes(key)) {
+        continue;
+      }
+    }
+    const childValue = toJsonValue(child, options, depth + 1, nextAncestors);
+    if (childValue !== undefined) {
+      result[key] = childValue;
+    }
+  }
+  return result;
+};
+
+/**
+ * Serializes a partial's context to JSON without modifying it. Cycles are
+ * replaced with `"[Circular]"`. `<` and line separators are escaped, so the
+ * result is safe to embed within a `<script>` element.
+ */
+export const serializeContext = (
+  context: any,
+  options: ContextSerializerOptions = {}
+) => {
+  const json = JSON.stringify(toJsonValue(context, options, 0, []), null, 2);
+  return (json ?? 'null')
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+};
@@ -0,0 +1,131 @@
+import {Builder, PluginComponent, Pod} from '@amagaki/amagaki';
+
+import crypto from 'crypto';
+import fsPath from 'path';
+
+/**
+ * Options for generating a Content Security Policy for each page. Each page
+ * receives its own nonce, applied to every `<script>` and `<style>` element the
+ * page builder emits. Inline `<script>` and `<style>` elements in partials must
+ * use the nonce too, otherwise they're blocked:
+ *
+ * ```
+ * <style nonce="{{pageBuilder.nonce}}">...</style>
+ * ```
+ */
+export interface CspOptions {
+  /**
+   * Directives merged into the generated policy, e.g. `{'img-src': ["'self'",
+   * 'https:']}`. Values are appended to the generated directives of the same
+   * name.
+   */
+  directives?: Record<string, string[]>;
+
+  /**
+   * How the policy is delivered. `meta` adds a `<meta http-equiv>` element to
+   * each page. `headers` writes a manifest mapping each page's URL path to its
+   * headers after the build, for use when configuring the server. Default:
+   * `meta`
+   */
+  output?: 'meta' | 'headers';
+
+  /**
+   * The path of the headers manifest, relative to the build directory.
+   * Default: `/csp-headers.json`
+   */
+  headersManifestPath?: string;
+}
+
+/** Returns a new random nonce. */
+export const createNonce = () => {
+  return crypto.randomBytes(16).toString('base64');
+};
+
+/**
+ * Builds a strict, nonce-based Content Security Policy, merged with any
+ * additional directives.
+ */
+export const buildContentSecurityPolicy = (
+  nonce: string,
+  extraDirectives: Record<string, string[]> = {}
+) => {
+  const directives: Record<string, string[]> = {
+    'base-uri': ["'self'"],
+    'object-src': ["'none'"],
+    'script-src': [`'nonce-${nonce}'`, "'strict-dynamic'"],
+    'style-src': ["'self'", `'nonce-${nonce}'`],
+  };
+  for (const [name, values] of Object.entries(extraDirectives)) {
+    directives[name] = [...new Set([...(directives[name] ?? []), ...values])];
+  }
+  return Object.entries(directives)
+    .map(([name, values]) => [name, ...values].join(' '))
+    .join('; ');
+};
+
+/**
+ * Returns the `<script>` and `<style>` start tags in the HTML that lack a
+ * `nonce` attribute, ignoring data blocks such as `application/json`.
+ */
+export const findElementsWithoutNonce = (content: string) => {
+  const tags = content.match(/<(script|style)\b[^>]*>/gi) ?? [];
+  return tags.filter(
+    tag =>
+      !/\snonce=/i.test(tag) && !/\stype=["']?application\/(ld\+)?json/i.test(tag)
+  );
+};
+
+/**
+ * Writes the headers manifest, containing the Content Security Policy for each
+ * page, to the build directory after the build is complete. See
+ * `CspOptions.output`.
+ */
+export class CspHeadersPlugin implements PluginComponent {
+  pod: Pod;
+  config: Record<string, any>;
+  headers: Record<string, Record<string, string>>;
+  private outputDirectoryPodPath?: string;
+
+  constructor(pod: Pod, config: Record<string, any>) {
+    this.pod = pod;
+    this.config = config;
+    this.headers = {};
+  }
+
+  static register(pod: Pod, options: CspOptions) {
+    pod.plugins.register(CspHeadersPlugin, {
+      path: options.headersManifestPath ?? '/csp-headers.json',
+    });
+  }
+
+  /** Returns the plugin registered with the pod, if any. */
+  static get(pod: Pod) {
+    return pod.plugins.get('CspHeadersPlugin') as CspHeadersPlugin | null;
+  }
+
+  /** Records the Content Security Policy for a page. */
+  addPolicy(urlPath: string, policy: string) {
+    this.headers[urlPath] = {'Content-Security-Policy': policy};
+  }
+
+  async beforeBuildHook(builder: Builder) {
+    this.outputDirectoryPodPath = builder.outputDirectoryPodPath;
+  }
+
+  async afterBuildHook() {
+    const podPath = fsPath.join(
+      this.outputDirectoryPodPath ?? '/build/',
+      this.config.path
+    );
+    const sortedHeaders = Object.keys(this.headers)
+      .sort()
+      .reduce((result: Record<string, Record<string, string>>, urlPath) => {
+        result[urlPath] = this.headers[urlPath];
+        return result;
+      }, {});
+    await this.pod.writeFileAsync(
+      podPath,
+      JSON.stringify(sortedHeaders, null, 2)
+    );
+  }
+}
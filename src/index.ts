@@ -1,3 +1,8 @@
+export * from './context-serializer';
+export * from './csp';
 export * from './page-builder';
+export * from './partial-presets';
+export * from './partial-schema';
 export * from './sitemap';
+export * from './structured-data';
 export * from './utils';
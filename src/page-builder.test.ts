@@ -1,8 +1,46 @@
-import {Pod, Route} from '@amagaki/amagaki';
+import {PageBuilder, PageBuilderOptions} from './page-builder';
+import {Pod, Route, TemplateContext} from '@amagaki/amagaki';
 
+import {CspHeadersPlugin} from './csp';
 import {ExecutionContext} from 'ava';
+import crypto from 'crypto';
+import fs from 'fs';
+import {mergePresetFields} from './partial-presets';
+import os from 'os';
+import path from 'path';
 import test from 'ava';
 
+const createBuilder = (pod: Pod, options?: PageBuilderOptions) => {
+  const doc = pod.doc('/content/pages/index.yaml');
+  const context: TemplateContext = {
+    doc: doc,
+    env: pod.env,
+    pod: pod,
+    process: process,
+  };
+  return new PageBuilder(doc, context, options);
+};
+
+/**
+ * Returns a partial rendered from a template written to a temporary file,
+ * which is removed when the test finishes.
+ */
+const createPartial = (t: ExecutionContext, name: string, template: string) => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'page-builder-'));
+  const absolutePath = path.join(directory, `${name}.njk`);
+  fs.writeFileSync(absolutePath, template);
+  t.teardown(() => {
+    fs.unlinkSync(absolutePath);
+    fs.rmdirSync(directory);
+  });
+  return {partial: {partial: name, absolutePath: absolutePath}};
+};
+
+/** Returns a partial whose template throws when rendered. */
+const createBrokenPartial = (t: ExecutionContext, name: string) => {
+  return createPartial(t, name, '<div>{{ notAFunction() }}</div>');
+};
+
 test('PageBuilder', async (t: ExecutionContext) => {
   const pod = new Pod('./example');
   await pod.router.warmup();
@@ -30,3 +68,739 @@ test('PageBuilder dev', async (t: ExecutionContext) => {
   t.true(html.includes('<page-module-inspector'));
   t.true(html.includes('page-builder-ui.min.js'));
 });
+
+test('PageBuilder partial not found', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod);
+  t.is(await builder.buildPartialElement({partial: 'missing'}), '');
+  t.is(builder.partialErrors.length, 1);
+  t.is(
+    builder.partialErrors[0].error.message,
+    'Partial not found: missing (position 1 in /content/pages/index.yaml). Tried: /views/partials/missing.njk'
+  );
+});
+
+test('PageBuilder partial not found dev', async (t: ExecutionContext) => {
+  const pod = new Pod('./example', {dev: true, name: 'test'});
+  await pod.router.warmup();
+  const builder = createBuilder(pod);
+  const html = (
+    await builder.buildPartialElement({partial: 'missing', title: 'Hello'})
+  ).toString();
+  t.true(html.includes('<page-module partial="missing" position="1">'));
+  t.true(
+    html.includes(
+      'Partial not found: missing (position 1 in /content/pages/index.yaml)'
+    )
+  );
+  t.true(html.includes('<li>/views/partials/missing.njk</li>'));
+  t.true(html.includes('&quot;title&quot;: &quot;Hello&quot;'));
+});
+
+test('PageBuilder partial not found dev with context options', async (t: ExecutionContext) => {
+  const pod = new Pod('./example', {dev: true, name: 'test'});
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {context: {include: ['title']}});
+  const html = (
+    await builder.buildPartialElement({partial: 'missing', title: 'Hello', body: 'World'})
+  ).toString();
+  t.true(html.includes('&quot;title&quot;: &quot;Hello&quot;'));
+  t.false(html.includes('&quot;body&quot;'));
+});
+
+test('PageBuilder partial errors', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod);
+  builder.doc.fields.partials = [
+    createBrokenPartial(t, 'broken-1'),
+    {partial: 'hero', title: 'Still rendered'},
+    createBrokenPartial(t, 'broken-2'),
+  ];
+  const error = await t.throwsAsync(builder.buildDocument());
+  t.true(
+    error.message.startsWith(
+      '2 partial(s) failed to render in /content/pages/index.yaml:'
+    )
+  );
+  t.true(error.message.includes('broken-1 (position 2):'));
+  t.true(error.message.includes('broken-2 (position 4):'));
+});
+
+test('PageBuilder partial errors drop', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {onPartialError: 'drop'});
+  builder.doc.fields.partials = [
+    createBrokenPartial(t, 'broken-1'),
+    {partial: 'hero', title: 'Still rendered'},
+  ];
+  const html = await builder.buildDocument();
+  t.false(html.includes('broken-1'));
+  t.true(html.includes('Still rendered'));
+  t.is(builder.partialErrors.length, 1);
+});
+
+test('PageBuilder partial errors drop missing partial', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {onPartialError: 'drop'});
+  builder.doc.fields.partials = [
+    createBrokenPartial(t, 'broken-1'),
+    {partial: 'missing'},
+  ];
+  const error = await t.throwsAsync(builder.buildDocument());
+  t.true(
+    error.message.startsWith(
+      '1 partial(s) failed to render in /content/pages/index.yaml:'
+    )
+  );
+  t.true(error.message.includes('missing (position 3): Partial not found'));
+  t.false(error.message.includes('broken-1'));
+});
+
+test('PageBuilder partial errors release resources', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {beautify: false, onPartialError: 'drop'});
+  builder.doc.fields.partials = [
+    createBrokenPartial(t, 'hero'),
+    {partial: 'hero', title: 'Still rendered'},
+  ];
+  const html = await builder.buildDocument();
+  t.true(html.includes('Still rendered'));
+  t.regex(html, /<script\s+src="[^"]*hero\.js/);
+  t.regex(html, /<noscript><link href="[^"]*hero\.css/);
+  t.true(html.includes('position="3"'));
+});
+
+test('PageBuilder partial errors dev', async (t: ExecutionContext) => {
+  const pod = new Pod('./example', {dev: true, name: 'test'});
+  await pod.router.warmup();
+  const builder = createBuilder(pod);
+  builder.doc.fields.partials = [
+    createBrokenPartial(t, 'broken-1'),
+    {partial: 'hero', title: 'Still rendered'},
+  ];
+  const html = await builder.buildDocument();
+  t.true(
+    html.includes(
+      'Error rendering partial: broken-1 (position 2 in /content/pages/index.yaml)'
+    )
+  );
+  t.true(html.includes('Unable to call `notAFunction`'));
+  t.true(html.includes('Still rendered'));
+});
+
+test('PageBuilder partial schema', async (t: ExecutionContext) => {
+  const pod = new Pod('./example', {dev: true, name: 'test'});
+  await pod.router.warmup();
+  const builder = createBuilder(pod);
+  const html = (
+    await builder.buildPartialElement({partial: 'hero', titel: 'Hello'})
+  ).toString();
+  t.deepEqual(builder.partialViolations, [
+    {
+      name: 'hero',
+      position: 1,
+      violations: ['title: required field is missing', 'titel: unknown field'],
+    },
+  ]);
+  t.true(
+    html.includes(
+      'violations="[&quot;title: required field is missing&quot;,&quot;titel: unknown field&quot;]"'
+    )
+  );
+});
+
+test('PageBuilder structured data', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    head: {
+      structuredData: [
+        {'@type': 'Organization', name: 'Example', url: 'https://example.com'},
+      ],
+    },
+  });
+  builder.doc.fields.structuredData = {
+    '@type': 'Article',
+    headline: 'Hello </script> World',
+  };
+  builder.doc.fields.partials = [
+    createPartial(
+      t,
+      'faq',
+      "<div>{{pageBuilder.addStructuredData({'@type': 'FAQPage', mainEntity: []})}}</div>"
+    ),
+  ];
+  const html = await builder.buildDocument();
+  t.true(
+    html.includes(
+      '<script type="application/ld+json">{"@context":"https://schema.org","@type":"Organization","name":"Example","url":"https://example.com"}</script>'
+    )
+  );
+  t.true(
+    html.includes(
+      '<script type="application/ld+json">{"@context":"https://schema.org","@type":"Article","headline":"Hello \\u003c/script> World"}</script>'
+    )
+  );
+  t.true(
+    html.includes(
+      '<script type="application/ld+json">{"@context":"https://schema.org","@type":"FAQPage","mainEntity":[]}</script>'
+    )
+  );
+  t.true(html.indexOf('application/ld+json') < html.indexOf('</head>'));
+});
+
+test('PageBuilder structured data with replacement patterns', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {beautify: false});
+  builder.doc.fields.structuredData = {
+    '@type': 'Restaurant',
+    priceRange: '$$',
+    description: "Before $' after $& $`",
+  };
+  const html = await builder.buildDocument();
+  t.true(
+    html.includes(
+      '<script type="application/ld+json">{"@context":"https://schema.org","@type":"Restaurant","priceRange":"$$","description":"Before $\' after $& $`"}</script>'
+    )
+  );
+  t.is(html.split('</html>').length, 2);
+});
+
+test('PageBuilder social metadata', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    head: {
+      social: {
+        card: 'summary',
+        image: {url: '/static/images/share.jpg', width: 1200, height: 630},
+        twitterCreator: '@example',
+      },
+    },
+  });
+  builder.doc.fields.social = {
+    type: 'article',
+    image: {alt: 'Share image'},
+    article: {
+      publishedTime: new Date('2021-06-01T00:00:00Z'),
+      authors: ['Jane Doe'],
+    },
+  };
+  const html = await builder.buildDocument();
+  const expected = [
+    '<meta property="og:type" content="article">',
+    '<meta property="og:image:width" content="1200">',
+    '<meta property="og:image:height" content="630">',
+    '<meta property="og:image:alt" content="Share image">',
+    '<meta property="article:published_time" content="2021-06-01T00:00:00.000Z">',
+    '<meta property="article:author" content="Jane Doe">',
+    '<meta property="twitter:image:alt" content="Share image">',
+    '<meta property="twitter:card" content="summary">',
+  ];
+  for (const element of expected) {
+    t.true(html.includes(element), element);
+  }
+  t.true(
+    /<meta\s+property="og:image"\s+content="[^"]*\/static\/images\/share.jpg"\s*>/.test(
+      html
+    )
+  );
+  t.true(/<meta\s+property="twitter:creator"\s+content="@example"\s*>/.test(html));
+  t.false(html.includes('article:modified_time'));
+});
+
+test('PageBuilder social image precedence', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    head: {
+      social: {
+        image: {url: '/static/global.jpg', width: 1200, height: 630, alt: 'Global'},
+      },
+    },
+  });
+  builder.doc.fields.image = '/static/page-specific.jpg';
+  const html = await builder.buildDocument();
+  t.regex(html, /<meta\s+property="og:image"\s+content="[^"]*\/static\/page-specific.jpg"\s*>/);
+  t.false(html.includes('/static/global.jpg'));
+  t.false(html.includes('og:image:width'));
+  t.false(html.includes('og:image:height'));
+  t.false(html.includes('og:image:alt'));
+
+  builder.doc.fields.social = {image: {url: '/static/social.jpg', width: 800}};
+  t.deepEqual(builder.getSocialImage(), {
+    url: '/static/social.jpg',
+    width: 800,
+    height: undefined,
+    alt: undefined,
+  });
+  delete builder.doc.fields.image;
+  delete builder.doc.fields.social;
+  t.deepEqual(builder.getSocialImage(), {
+    url: '/static/global.jpg',
+    width: 1200,
+    height: 630,
+    alt: 'Global',
+  });
+});
+
+test('PageBuilder title template', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    head: {
+      siteName: 'Example',
+      titleTemplate: '%s — %siteName%',
+      socialTitleTemplate: '%siteName%: %s',
+    },
+  });
+  let html = await builder.buildDocument();
+  t.true(html.includes('<title>Homepage — Example</title>'));
+  t.true(
+    html.includes('<meta property="og:title" content="Example: Homepage">')
+  );
+
+  builder.doc.fields.titleTemplate = '%siteName%';
+  html = await builder.buildDocument();
+  t.true(html.includes('<title>Example</title>'));
+
+  builder.doc.fields.titleTemplate = undefined;
+  builder.doc.fields.appendSiteName = false;
+  builder.options.head!.titleTemplate = undefined;
+  html = await builder.buildDocument();
+  t.true(html.includes('<title>Homepage</title>'));
+});
+
+test('PageBuilder critical CSS', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  let html = await createBuilder(pod, {beautify: false}).buildDocument();
+  t.false(html.includes('<style>.hero'));
+  t.regex(
+    html,
+    /<noscript><link href="[^"]*\/css\/partials\/hero.css[^"]*" rel="stylesheet"><\/noscript>/
+  );
+
+  const builder = createBuilder(pod, {
+    beautify: false,
+    criticalCss: {partials: 2},
+  });
+  html = await builder.buildDocument();
+  t.is(html.split('<style>.hero {').length, 2);
+  t.false(html.includes('partials/hero.css'));
+  // Relative references resolve against the stylesheet, not the page.
+  t.regex(
+    html,
+    /background: url\('[./]*static\/images\/hero-background.png'\) no-repeat;/
+  );
+  t.false(html.includes('../../images/hero-background.png'));
+
+  builder.doc.fields.partials[0].critical = true;
+  html = await createBuilder(pod, {beautify: false}).buildDocument();
+  t.true(html.includes('<style>.hero {'));
+});
+
+test('PageBuilder resource hints', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  let html = await createBuilder(pod, {beautify: false}).buildDocument();
+  let head = html.slice(0, html.indexOf('</head>'));
+  t.regex(head, /<link rel="preload" href="[^"]*\/css\/partials\/hero.css[^"]*" as="style">/);
+  t.regex(head, /<link rel="preload" href="[^"]*\/js\/partials\/hero.js[^"]*" as="script">/);
+  t.is(html.split('js/partials/hero.js').length, 3);
+
+  html = await createBuilder(pod, {
+    beautify: false,
+    partialPaths: {
+      css: ['/dist/css/partials/${partial.partial}.css'],
+      js: ['/dist/js/partials/${partial.partial}.js'],
+      view: ['/views/partials/${partial.partial}.njk'],
+      module: true,
+    },
+    resourceHints: {hoistScripts: true},
+  }).buildDocument();
+  head = html.slice(0, html.indexOf('</head>'));
+  t.false(head.includes('modulepreload'));
+  t.regex(head, /<script\s+src="[^"]*\/js\/partials\/hero.js[^"]*"\s+type="module"\s+defer\s*><\/script>/);
+  t.is(html.split('js/partials/hero.js').length, 2);
+
+  html = await createBuilder(pod, {
+    beautify: false,
+    resourceHints: {preload: false},
+  }).buildDocument();
+  t.false(html.includes('rel="preload" href'));
+});
+
+test('PageBuilder preconnect', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    preconnect: {
+      origins: [{url: 'https://api.example.com', dnsPrefetch: true}],
+      rules: [{pattern: 'youtube.com/embed', origins: ['https://www.youtube.com']}],
+      detectThirdParty: true,
+      allowlist: ['https://images.example.com', 'https://cdn.example.com'],
+    },
+  });
+  builder.doc.fields.partials = [
+    {
+      ...createPartial(
+        t,
+        'embed',
+        '<iframe src="https://www.youtube.com/embed/abc"></iframe><script src="https://cdn.example.com/embed.js"></script><img src="https://other.example.com/a.png">'
+      ),
+      image: {url: 'https://images.example.com/hero.jpg'},
+    },
+  ];
+  const html = await builder.buildDocument();
+  const head = html.slice(0, html.indexOf('</head>'));
+  t.true(head.includes('<link rel="dns-prefetch" href="https://api.example.com">'));
+  t.true(head.includes('<link rel="preconnect" href="https://www.youtube.com">'));
+  t.true(head.includes('<link rel="preconnect" href="https://cdn.example.com">'));
+  t.true(head.includes('<link rel="preconnect" href="https://images.example.com">'));
+  t.false(head.includes('https://other.example.com'));
+});
+
+test('PageBuilder CSP', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    csp: {directives: {'img-src': ["'self'", 'https:']}},
+  });
+  builder.doc.fields.partials = [
+    createPartial(t, 'trusted', '<script nonce="{{pageBuilder.nonce}}">init();</script>'),
+    createPartial(t, 'untrusted', '<script>track();</script>'),
+    createPartial(t, 'unstyled', '<style>.unstyled { color: red; }</style>'),
+    {partial: 'hero', title: 'Styled'},
+  ];
+  const html = await builder.buildDocument();
+  const nonce = builder.nonce as string;
+  t.truthy(nonce);
+  t.true(html.includes('http-equiv="Content-Security-Policy"'));
+  t.true(html.includes(`script-src &#39;nonce-${nonce}&#39; &#39;strict-dynamic&#39;`));
+  t.true(html.includes('img-src &#39;self&#39; https:'));
+  t.false(html.includes('onload='));
+  t.true(html.includes('data-async-style'));
+  const scripts = html.match(/<script\b[^>]*>/g) ?? [];
+  t.deepEqual(
+    scripts.filter(tag => !tag.includes(`nonce="${nonce}"`)),
+    ['<script>']
+  );
+  t.deepEqual(
+    builder.partialViolations.map(({name}) => name),
+    ['untrusted', 'unstyled']
+  );
+  t.true(html.includes(`<style nonce="${nonce}">`));
+
+  // Extra templates can use the nonce, and are checked too.
+  const extraBuilder = createBuilder(pod, {
+    beautify: false,
+    csp: {},
+    head: {
+      prepend: ['/views/head-prepend.njk'],
+      extra: ['/views/head.njk'],
+    },
+    body: {extra: ['/views/body-without-nonce.njk']},
+  });
+  const extraHtml = await extraBuilder.buildDocument();
+  const extraNonce = extraBuilder.nonce as string;
+  t.true(extraHtml.includes(`<script nonce="${extraNonce}">\n(function(i,s,o,g,r,a,m)`));
+  t.true(
+    extraHtml.indexOf('http-equiv="Content-Security-Policy"') <
+      extraHtml.indexOf('Extra content inserted at the top of the <head> element.')
+  );
+  t.deepEqual(
+    extraBuilder.partialViolations.filter(({position}) => position === undefined),
+    [
+      {
+        name: '/views/body-without-nonce.njk',
+        position: undefined,
+        violations: ['<script>: missing nonce, use nonce="{{pageBuilder.nonce}}"'],
+      },
+    ]
+  );
+
+  CspHeadersPlugin.register(pod, {output: 'headers'});
+  const headersBuilder = createBuilder(pod, {csp: {output: 'headers'}});
+  const headersHtml = await headersBuilder.buildDocument();
+  t.false(headersHtml.includes('http-equiv="Content-Security-Policy"'));
+  t.deepEqual(CspHeadersPlugin.get(pod)?.headers['/pages/'], {
+    'Content-Security-Policy': headersBuilder.getContentSecurityPolicy(),
+  });
+});
+
+test('PageBuilder subresource integrity', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    subresourceIntegrity: true,
+    head: {
+      scripts: [
+        {
+          href: 'https://cdn.example.com/lib.js',
+          integrity: 'sha384-pinned',
+        },
+        'https://cdn.example.com/unpinned.js',
+      ],
+    },
+  });
+  const html = await builder.buildDocument();
+  const hash = crypto
+    .createHash('sha384')
+    .update(fs.readFileSync('./example/dist/css/partials/hero.css'))
+    .digest('base64');
+  t.regex(
+    html,
+    new RegExp(
+      `<link\\s+href="[^"]*hero.css[^"]*"\\s+rel="stylesheet"\\s+integrity="sha384-${hash.replace(/[+/]/g, '\\$&')}"\\s+crossorigin="anonymous"`
+    )
+  );
+  t.regex(
+    html,
+    /<script\s+src="https:\/\/cdn.example.com\/lib.js"\s+integrity="sha384-pinned"\s+crossorigin="anonymous"/
+  );
+  t.regex(html, /<script\s+src="https:\/\/cdn.example.com\/unpinned.js"\s*><\/script>/);
+
+  // Hashes are shared by the pod's pages, so files aren't hashed again.
+  const otherBuilder = createBuilder(pod, {subresourceIntegrity: true});
+  const readFileSync = fs.readFileSync;
+  let reads = 0;
+  fs.readFileSync = ((...args: Parameters<typeof readFileSync>) => {
+    reads += 1;
+    return readFileSync(...args);
+  }) as typeof readFileSync;
+  try {
+    t.is(
+      otherBuilder.getIntegrity(pod.staticFile('/dist/css/partials/hero.css')),
+      `sha384-${hash}`
+    );
+  } finally {
+    fs.readFileSync = readFileSync;
+  }
+  t.is(reads, 0);
+});
+
+test('PageBuilder resource loader attributes', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const html = await createBuilder(pod, {
+    beautify: false,
+    head: {
+      scripts: [
+        {
+          href: 'https://plausible.io/js/script.js',
+          defer: true,
+          data: {domain: 'example.com'},
+        },
+        {href: '/static/legacy.js', nomodule: true, async: true},
+        {href: '/static/app.js', fetchpriority: 'high', crossorigin: 'use-credentials'},
+      ],
+      stylesheets: [
+        {href: '/static/print.css', media: 'print', async: false},
+      ],
+    },
+  }).buildDocument();
+  t.regex(
+    html,
+    /<script\s+src="https:\/\/plausible.io\/js\/script.js"\s+defer\s+data-domain="example.com"\s*><\/script>/
+  );
+  t.regex(html, /<script\s+src="[^"]*\/static\/legacy.js"\s+async\s+nomodule\s*><\/script>/);
+  t.regex(
+    html,
+    /<script\s+src="[^"]*\/static\/app.js"\s+crossorigin="use-credentials"\s+fetchpriority="high"\s*><\/script>/
+  );
+  t.regex(html, /<link\s+href="[^"]*\/static\/print.css"\s+rel="stylesheet"\s+media="print"\s*>/);
+});
+
+test('PageBuilder conditional resources', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    head: {
+      scripts: [
+        {href: '/static/debug.js', environments: ['staging']},
+        {href: '/static/landing.js', collections: ['/content/landing/**']},
+        {href: '/static/pages.js', collections: ['/content/pages']},
+        {
+          href: '/static/homepage.js',
+          condition: context => context.doc.fields.title === 'Homepage',
+        },
+      ],
+      stylesheets: [
+        {href: '/static/fonts-ja.css', locales: ['ja']},
+        {href: '/static/fonts-en.css', locales: ['en']},
+      ],
+    },
+  });
+  let html = await builder.buildDocument();
+  t.false(html.includes('debug.js'));
+  t.false(html.includes('landing.js'));
+  t.true(html.includes('pages.js'));
+  t.true(html.includes('homepage.js'));
+  t.false(html.includes('fonts-ja.css'));
+  t.true(html.includes('fonts-en.css'));
+
+  const stagingPod = new Pod('./example', {name: 'staging'});
+  await stagingPod.router.warmup();
+  html = await createBuilder(stagingPod, builder.options).buildDocument();
+  t.true(html.includes('debug.js'));
+});
+
+test('PageBuilder head and body overrides', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    head: {scripts: ['/static/main.js']},
+    body: {class: 'site'},
+  });
+  const collection = builder.doc.collection!;
+  collection.fields.head = {scripts: ['/static/landing.js']};
+  collection.fields.body = {class: 'landing'};
+  builder.doc.fields.head = {
+    stylesheets: [{href: '/static/campaign.css', async: false}],
+  };
+  builder.doc.fields.body = {class: 'campaign', extra: ['/views/body.njk']};
+  const html = await builder.buildDocument();
+  t.true(html.includes('<body class="site landing campaign">'));
+  t.true(html.indexOf('main.js') < html.indexOf('landing.js'));
+  t.regex(html, /<link\s+href="[^"]*campaign.css"\s+rel="stylesheet"\s*>/);
+  t.true(html.includes(await builder.renderFile('/views/body.njk')));
+});
+
+test('PageBuilder lazy partials', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {beautify: false});
+  for (const partial of builder.doc.fields.partials) {
+    partial.loading = 'lazy';
+  }
+  const html = await builder.buildDocument();
+  const match = html.match(
+    /<page-module partial="hero" position="2" loading="lazy" data-lazy-resources="([^"]*)">/
+  );
+  t.truthy(match);
+  const resources = JSON.parse((match as string[])[1].replace(/&quot;/g, '"'));
+  t.deepEqual(
+    resources.map((resource: any) => resource.as),
+    ['style', 'script']
+  );
+  t.false(/<link[^>]*hero.css/.test(html));
+  t.false(/<script\s+src="[^"]*hero.js/.test(html));
+  t.true(html.includes("querySelectorAll('page-module[data-lazy-resources]')"));
+});
+
+test('PageBuilder context', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {
+    beautify: false,
+    includeContext: true,
+    context: {partials: {hero: {exclude: ['video']}}},
+  });
+  const partial = createPartial(t, 'hero', '<div></div>');
+  const html = await builder.buildDocument();
+  t.false(html.includes('"video"'));
+  t.true(html.includes('"title": "Hello World 1!"'));
+  t.deepEqual(
+    builder.contextSizes.map(({name, position}) => [name, position]),
+    [['header', 1], ['hero', 2], ['hero', 3]]
+  );
+  t.true(builder.contextSizes.every(({bytes}) => bytes > 0));
+
+  await builder.buildContextElement({partial: partial}, 'hero', 4);
+  t.truthy(partial.partial.absolutePath);
+});
+
+test('PageBuilder nested partials', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {beautify: false});
+  builder.doc.fields.partials = [
+    {
+      ...createPartial(
+        t,
+        'columns',
+        '<div class="columns">{{pageBuilder.render(partial.columns)|await}}</div>'
+      ),
+      columns: [
+        {partial: 'hero', title: 'Column 1'},
+        {partial: 'hero', title: 'Column 2'},
+      ],
+    },
+    {partial: 'hero', title: 'After'},
+  ];
+  const html = await builder.buildDocument();
+  t.regex(
+    html,
+    /<div class="columns"><page-module partial="hero" position="\d+">[\s\S]*Column 1[\s\S]*<\/page-module>\n<page-module partial="hero" position="\d+">[\s\S]*Column 2[\s\S]*<\/div>/
+  );
+  t.is(html.split('<page-module partial="hero"').length, 4);
+  // Loaded once: a `<link>` and its `<noscript>` fallback.
+  t.is(html.split(/<link\s+href="[^"]*hero.css/).length, 3);
+  // Numbered in document order: the header, columns, both columns, then after.
+  const positions = (html.match(/<page-module [^>]*position="\d+"/g) ?? []).map(
+    element => element.replace(/.*position="(\d+)"/, '$1')
+  );
+  t.deepEqual(positions, ['1', '2', '3', '4', '5']);
+  t.regex(html, /<page-module partial="hero" position="5">[\s\S]*After/);
+});
+
+test('PageBuilder partial presets', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const builder = createBuilder(pod, {beautify: false, includeContext: true});
+  builder.doc.fields.partials = [
+    {preset: 'promo-banner'},
+    {preset: 'promo-banner', title: 'Overridden title'},
+  ];
+  const html = await builder.buildDocument();
+  t.is(html.split('<page-module partial="hero"').length, 3);
+  t.true(html.includes('"title": "Try the new release"'));
+  t.true(html.includes('"title": "Overridden title"'));
+  t.is(html.split('"url": "/static/images/promo.jpg"').length, 3);
+  t.deepEqual(builder.doc.fields.partials[1], {
+    preset: 'promo-banner',
+    title: 'Overridden title',
+  });
+
+  // Objects are merged deeply, while other values replace the preset's.
+  builder.doc.fields.partials = [
+    {preset: 'promo-banner', image: {alt: 'Overridden alt'}},
+  ];
+  const mergedHtml = await builder.buildDocument();
+  t.true(
+    mergedHtml.includes('<img src="/static/images/promo.jpg" alt="Overridden alt">')
+  );
+  t.deepEqual(
+    mergePresetFields(
+      {image: {url: 'preset.jpg', alt: 'Preset'}, tags: ['a', 'b']},
+      {image: {alt: 'Page'}, tags: ['c']}
+    ),
+    {image: {url: 'preset.jpg', alt: 'Page'}, tags: ['c']}
+  );
+
+  builder.doc.fields.partials = [{preset: 'missing'}];
+  await t.throwsAsync(builder.buildDocument(), {
+    message: /Preset not found: missing/,
+  });
+
+  builder.doc.fields.partials = [{preset: 'untyped-banner'}];
+  await t.throwsAsync(builder.buildDocument(), {
+    message: /Preset untyped-banner does not specify a partial: \/content\/partials\/untyped-banner.yaml/,
+  });
+});
@@ -1,3 +1,15 @@
+import {ContextSerializerOptions, serializeContext} from './context-serializer';
+import {
+  CspHeadersPlugin,
+  CspOptions,
+  buildContentSecurityPolicy,
+  createNonce,
+  findElementsWithoutNonce,
+} from './csp';
+import {
+  DEFAULT_PARTIAL_CONTENT_PATHS,
+  resolvePartialPreset,
+} from './partial-presets';
 import {
   DataType,
   Document,
@@ -9,12 +21,20 @@ import {
   Url,
   interpolate,
 } from '@amagaki/amagaki';
-import {html, safeString} from './utils';
+import {
+  NewsSitemapOptions,
+  RobotsTxtRuleGroup,
+  SitemapMediaOptions,
+  SitemapPlugin,
+} from './sitemap';
+import {PartialSchema, loadPartialSchema, validatePartial} from './partial-schema';
+import {StructuredData, serializeStructuredData} from './structured-data';
+import {getHreflang, html, matchesGlob, safeString} from './utils';
 
 import { GridOptions } from './ui/grid-inspector';
 import {PageBuilderStaticRouteProvider} from './router';
 import {PartialPreviewRouteProvider} from './partial-preview';
-import {SitemapPlugin} from './sitemap';
+import crypto from 'crypto';
 import fs from 'fs';
 import jsBeautify from 'js-beautify';
 
@@ -67,6 +87,48 @@ type ResourceLoader = {
 
   /** Whether to use `type="module"` when loading scripts. */
   module?: boolean;
+
+  /**
+   * A pinned Subresource Integrity hash, e.g. `sha384-...`. Used for remote
+   * resources, whose hashes can't be computed by the page builder.
+   */
+  integrity?: string;
+
+  /**
+   * The `crossorigin` attribute. Default: `anonymous` if the resource has an
+   * integrity hash, otherwise unset.
+   */
+  crossorigin?: 'anonymous' | 'use-credentials';
+
+  /** The `fetchpriority` attribute. */
+  fetchpriority?: 'high' | 'low' | 'auto';
+
+  /** The `media` attribute for styles, e.g. `print`. */
+  media?: string;
+
+  /** Whether to use `nomodule` when loading scripts, e.g. for legacy bundles. */
+  nomodule?: boolean;
+
+  /** Data attributes, e.g. `{domain: 'example.com'}` for `data-domain`. */
+  data?: Record<string, string>;
+
+  /**
+   * Load the resource only in these environments, e.g. `['staging']`. `dev`
+   * matches the development server.
+   */
+  environments?: string[];
+
+  /** Load the resource only on pages in these locales, e.g. `['ja']`. */
+  locales?: string[];
+
+  /**
+   * Load the resource only on pages in collections matching these pod path
+   * globs, e.g. `['/content/landing/**']`.
+   */
+  collections?: string[];
+
+  /** Load the resource only on pages for which the function returns true. */
+  condition?: (context: TemplateContext) => boolean | Promise<boolean>;
 };
 
 type Resource = StaticFile | string | ResourceLoader;
@@ -92,11 +154,184 @@ interface InspectorOptions {
   grid?: GridOptions[];
 }
 
+/** An image used when the page is shared. */
+interface SocialImage {
+  /**
+   * The image URL. Each layer's `image` field (`head.image` for the global
+   * layer) is used if its `social.image.url` is unset. The document's image
+   * takes precedence over the collection's, over the global image. `width`
+   * and `height` only apply if set in the same layer as the URL.
+   */
+  url?: string;
+  width?: number;
+  height?: number;
+  alt?: string;
+}
+
+/** Article metadata, output as `article:*` Open Graph properties. */
+interface SocialArticle {
+  publishedTime?: string | Date;
+  modifiedTime?: string | Date;
+  authors?: string[];
+  section?: string;
+  tags?: string[];
+}
+
+/**
+ * Open Graph and Twitter card metadata. Set globally using `head.social` and
+ * overridden field by field using the `social` field of a collection or
+ * document.
+ */
+interface SocialMetadata {
+  /** The `og:type`. Default: `website` */
+  type?: string;
+
+  image?: SocialImage;
+
+  /** The `twitter:card`. Default: `summary_large_image` */
+  card?: 'summary' | 'summary_large_image' | 'app' | 'player';
+
+  /** The Twitter username (including @) of the page's author. */
+  twitterCreator?: string;
+
+  article?: SocialArticle;
+
+  /**
+   * Whether to output `og:locale:alternate` for each of the page's other
+   * locales. Default: true
+   */
+  alternateLocales?: boolean;
+}
+
+const DEFAULT_PRECONNECT_RULES: PreconnectRule[] = [
+  {
+    pattern: /https:\/\/fonts.googleapis.com/,
+    origins: [
+      {url: 'https://fonts.gstatic.com', crossorigin: true},
+      {url: 'https://fonts.googleapis.com', crossorigin: true},
+    ],
+  },
+  {
+    pattern: /https:\/\/www.google-analytics.com/,
+    origins: ['https://www.google-analytics.com'],
+  },
+  {
+    pattern: /https:\/\/www.googletagmanager.com\/gtm.js\?id=/,
+    origins: ['https://www.googletagmanager.com'],
+  },
+];
+
+/** Matches absolute URLs loaded by the page, e.g. `src="https://..."`. */
+const RESOURCE_ORIGIN_PATTERN =
+  /(?:^|\b(?:src|srcset|poster)=["']?|url\(["']?)(https?:\/\/[^/"'\s)?#]+)/gi;
+
+const DEFAULT_MAX_CONTEXT_BYTES = 50000;
+
+const DEFAULT_TITLE_TEMPLATE = '%s | %siteName%';
+const DEFAULT_SOCIAL_TITLE_TEMPLATE = '%s';
+
 const PRECONNECT_MARKER = '<!-- page-builder: preconnect -->';
+/**
+ * Swaps asynchronously loaded styles to stylesheets once loaded. Used in place
+ * of inline `onload` handlers, which aren't permitted by a nonce-based CSP.
+ */
+const ASYNC_STYLE_LOADER_SCRIPT =
+  "document.addEventListener('load',function(e){var t=e.target;if(t.hasAttribute&&t.hasAttribute('data-async-style')){t.rel='stylesheet';}},true);";
+
+/**
+ * Loads the resources of lazy partials (`loading: lazy`) once they near the
+ * viewport. Resources are listed in each partial's `data-lazy-resources`
+ * attribute. Loads everything immediately in browsers without
+ * IntersectionObserver.
+ */
+const LAZY_PARTIAL_LOADER_SCRIPT = [
+  '(function(){',
+  'var nonce=document.currentScript&&document.currentScript.nonce;',
+  'var load=function(el){',
+  "var resources=JSON.parse(el.getAttribute('data-lazy-resources')||'[]');",
+  "el.removeAttribute('data-lazy-resources');",
+  'resources.forEach(function(r){',
+  "var attr=r.as==='style'?'href':'src';",
+  "if(document.querySelector(r.as==='style'?'link[href=\"'+r.url+'\"]':'script[src=\"'+r.url+'\"]')){return;}",
+  "var e=document.createElement(r.as==='style'?'link':'script');",
+  "if(r.as==='style'){e.rel='stylesheet';}else if(r.module){e.type='module';}",
+  'if(r.integrity){e.integrity=r.integrity;e.crossOrigin=\'anonymous\';}',
+  'if(nonce){e.nonce=nonce;}',
+  'e[attr]=r.url;',
+  'document.head.appendChild(e);',
+  '});',
+  '};',
+  "var els=[].slice.call(document.querySelectorAll('page-module[data-lazy-resources]'));",
+  "if(!('IntersectionObserver' in window)){els.forEach(load);return;}",
+  'var observer=new IntersectionObserver(function(entries){',
+  'entries.forEach(function(entry){',
+  'if(entry.isIntersecting){observer.unobserve(entry.target);load(entry.target);}',
+  '});',
+  "},{rootMargin:'200px'});",
+  'els.forEach(function(el){observer.observe(el);});',
+  '})();',
+].join('');
+
+/**
+ * Subresource Integrity hashes of static files, by pod and pod path, shared by
+ * every page of a pod. Hashes are recomputed when a file is modified.
+ */
+const integrityHashes = new WeakMap<
+  Pod,
+  Map<string, {modified: number; integrity: string}>
+>();
+
+const RESOURCE_HINTS_MARKER = '<!-- page-builder: resource-hints -->';
+const STRUCTURED_DATA_MARKER = '<!-- page-builder: structured-data -->';
+
+/** The size of a partial's serialized context. */
+interface PartialContextSize {
+  name: string;
+  position: number;
+  bytes: number;
+}
+
+/** A partial whose content does not match its schema. */
+interface PartialViolation {
+  name: string;
+  /** The partial's position. Unset for extra templates, such as `head.extra`. */
+  position?: number;
+  violations: string[];
+}
+
+/** A partial that failed to render. */
+interface PartialError {
+  error: Error;
+  name: string;
+  position: number;
+  /** Whether the partial's view doesn't exist. */
+  missing?: boolean;
+}
 
 interface PreconnectOrigin {
   url: string;
-  crossorigin: boolean;
+  crossorigin?: boolean;
+  /** Whether to use `<link rel="dns-prefetch">` instead of `preconnect`. */
+  dnsPrefetch?: boolean;
+}
+
+/**
+ * A rule for detecting origins to preconnect to. If `pattern` matches a
+ * resource URL or HTML rendered on the page, the page preconnects to `origins`.
+ */
+interface PreconnectRule {
+  pattern: RegExp | string;
+  origins: (PreconnectOrigin | string)[];
+}
+
+/** A partial resource hinted to the browser from the <head>. */
+interface ResourceHint {
+  url: string;
+  as: 'script' | 'style';
+  module?: boolean;
+  integrity?: string;
+  /** The partial's `<script>` element, if it was moved to the <head>. */
+  element?: string;
 }
 
 export interface PageBuilderOptions {
@@ -105,14 +340,114 @@ export interface PageBuilderOptions {
   /** Whether to dump the partial context into an element adjacent to each partial's `<page-module />` element. A partial's context may be used if the partial needs to be hydrated, inspected, or otherwise. */
   includeContext?: boolean;
 
+  /** Options for serializing each partial's context. */
+  context?: ContextSerializerOptions & {
+    /**
+     * Per-partial serializer options, keyed by partial name, e.g. `{hero:
+     * {exclude: ['body']}}`.
+     */
+    partials?: Record<string, ContextSerializerOptions>;
+
+    /**
+     * The size in bytes above which a partial's serialized context is reported
+     * with a warning. Default: 50,000
+     */
+    maxBytes?: number;
+  };
+
   /** Whether to beautify HTML output. */
   beautify?: boolean;
 
   /** Whether to beautity the contents of the `<page-module-container>` element. */
   beautifyContainer?: boolean;
 
+  /**
+   * How to handle partials that fail to render in prod. `fail` fails the build
+   * after all partials have been built, reporting every failed partial. `drop`
+   * leaves failed partials out of the page. Partials whose view doesn't exist
+   * always fail the build, as they indicate a misconfiguration rather than a
+   * content error. In dev and staging, failed partials are always rendered as
+   * an inline error card. Default: `fail`.
+   */
+  onPartialError?: 'fail' | 'drop';
+
+  /**
+   * Options for preconnecting to the origins used by the page. Origins are
+   * detected from the page's stylesheets, scripts, extra elements, partial
+   * output, and images in partial content.
+   */
+  preconnect?: {
+    /** Origins to preconnect to on every page. */
+    origins?: (PreconnectOrigin | string)[];
+
+    /**
+     * Rules for detecting origins, added to the built-in rules for Google
+     * Fonts, Google Analytics, and Google Tag Manager.
+     */
+    rules?: PreconnectRule[];
+
+    /**
+     * Whether to preconnect to any third-party origin the page loads resources
+     * from. Default: false
+     */
+    detectThirdParty?: boolean;
+
+    /**
+     * If set, only these origins (e.g. `https://cdn.example.com`) are
+     * preconnected to when detecting third-party origins.
+     */
+    allowlist?: string[];
+  };
+
+  /**
+   * Whether to add Subresource Integrity (`integrity` and `crossorigin`)
+   * attributes to scripts and stylesheets served from the pod. Hashes for
+   * remote resources may be pinned using `integrity` on the resource.
+   * Default: false
+   */
+  subresourceIntegrity?: boolean;
+
+  /**
+   * Options for generating a Content Security Policy with a per-page nonce. If
+   * unset, no policy is generated.
+   */
+  csp?: CspOptions;
+
+  /** Options for hinting the CSS and JS of partials from the <head>. */
+  resourceHints?: {
+    /**
+     * Whether to add `<link rel="preload">` (or `<link rel="modulepreload">`
+     * for module scripts) elements to the <head> for each partial's CSS and JS,
+     * so the browser discovers them early. Default: true
+     */
+    preload?: boolean;
+
+    /**
+     * Whether to move each partial's `<script>` element from the partial into
+     * the <head>, loaded using `defer`. Default: false
+     */
+    hoistScripts?: boolean;
+  };
+
+  /**
+   * Options for inlining the CSS of above-the-fold partials into a `<style>`
+   * element, avoiding a flash of unstyled content. Partials may also be marked
+   * critical individually using `critical: true`. The CSS of the remaining
+   * partials is loaded asynchronously. Relative `url()` references in inlined
+   * CSS are rewritten to resolve from the page.
+   */
+  criticalCss?: {
+    /** The number of partials, starting from the top of the page (including the header), whose CSS is inlined. Default: 0 */
+    partials?: number;
+  };
+
   footer?: BuiltinPartial;
   header?: BuiltinPartial;
+  /**
+   * Options for the <head> element. Collections and documents may load their
+   * own `stylesheets`, `scripts`, `prepend` and `extra` templates using a
+   * `head` field, which are added to these.
+   */
   head?: {
     /**
      * The description to use for the site. This is used as the default <meta>
@@ -161,9 +496,45 @@ export interface PageBuilderOptions {
     /** Append extra HTML to the bottom of the <head> element. */
     extra?: string[];
 
-    /** Whether to append the site name to the page title. */
+    /**
+     * Whether to append the site name to the page title.
+     * @deprecated Use `titleTemplate` instead. `false` is equivalent to a
+     * `titleTemplate` of `%s`.
+     */
     appendSiteName?: boolean;
+
+    /**
+     * The template used to build the <title> element. `%s` is replaced with the
+     * page's `title` and `%siteName%` with the site name. Collections and
+     * documents may override the template using the `titleTemplate` field, e.g.
+     * a homepage may use `%siteName%` to use just the site name. Pages without
+     * a `title` always use just the site name. Default: `%s | %siteName%`
+     */
+    titleTemplate?: string;
+
+    /**
+     * The template used to build the `og:title` and `twitter:title` values.
+     * Collections and documents may override the template using the
+     * `socialTitleTemplate` field. Default: `%s`
+     */
+    socialTitleTemplate?: string;
+
+    /** Open Graph and Twitter card metadata. */
+    social?: SocialMetadata;
+
+    /**
+     * JSON-LD structured data to include on every page, e.g. `Organization`
+     * and `WebSite` entries. Pages may add their own entries using the
+     * `structuredData` field, and partials may add entries by calling
+     * `pageBuilder.addStructuredData()` from their templates.
+     */
+    structuredData?: StructuredData[];
   };
+  /**
+   * Options for the <body> element. Collections and documents may add their
+   * own `class`, `prepend` and `extra` templates using a `body` field, which
+   * are added to these.
+   */
   body?: {
     /**
      * Override the class on the <body> element. The class can either be a
@@ -179,12 +550,31 @@ export interface PageBuilderOptions {
   /** Options for generating the sitemap. */
   sitemapXml?: {
     /** The URL path for the `sitemap.xml`. Example: `/sitemap.xml` */
-    path: string;
+    path?: string;
+    /** The URL path for the sitemap index. Example: `/sitemap_index.xml` */
+    indexPath?: string;
+    /** The maximum number of URLs per sitemap before splitting. Default: 50,000. */
+    maxUrls?: number;
+    /** The maximum size of a sitemap in bytes before splitting. Default: 50MB. */
+    maxBytes?: number;
+    /** Whether to emit a `<url>` element for every localized URL. */
+    includeLocalizedUrls?: boolean;
+    /** Options for emitting image and video entries from partial content. */
+    media?: SitemapMediaOptions;
+    /** Options for generating a news sitemap, e.g. `/news-sitemap.xml`. */
+    news?: NewsSitemapOptions;
   };
   /** Options for generating the `robots.txt` file. */
   robotsTxt?: {
     /** The URL path for the `robots.txt` file. Example: `/robots.txt` */
-    path: string;
+    path?: string;
+    /**
+     * Per-user-agent rule groups. Default: allow everything, or disallow
+     * everything in the `staging` environment.
+     */
+    rules?: RobotsTxtRuleGroup[];
+    /** Extra lines appended after the rule groups. */
+    extra?: string[];
   };
 }
 
@@ -198,7 +588,16 @@ export class PageBuilder {
   enableInspector: boolean;
   includeContext: boolean;
   preconnectOrigins: Set<PreconnectOrigin>;
+  /** The page's CSP nonce, if `csp` is enabled. */
+  nonce?: string;
+  resourceHints: ResourceHint[];
+  hasLazyPartials: boolean;
+  structuredData: StructuredData[];
+  partialErrors: PartialError[];
+  partialViolations: PartialViolation[];
+  contextSizes: PartialContextSize[];
   private partialLoopIncrementer: number;
+  private partialSchemas: Map<string, PartialSchema | undefined>;
 
   constructor(
     doc: Document,
@@ -215,7 +614,15 @@ export class PageBuilder {
       this.options
     );
     this.preconnectOrigins = new Set();
+    this.nonce = this.options.csp ? createNonce() : undefined;
+    this.resourceHints = [];
+    this.hasLazyPartials = false;
+    this.structuredData = [];
+    this.partialErrors = [];
+    this.partialViolations = [];
+    this.contextSizes = [];
     this.partialLoopIncrementer = 0;
+    this.partialSchemas = new Map();
     this.includeContext = this.options.includeContext ?? this.enableInspector;
     this.partialPaths = options?.partialPaths ?? {
       content: ['/content/partials/${partial.partial}.yaml'],
@@ -225,10 +632,13 @@ export class PageBuilder {
     };
   }
 
+  /** Returns whether the pod is running in dev mode or the staging environment. */
+  static isDevOrStaging(pod: Pod) {
+    return pod.env.dev || pod.env.name === 'staging';
+  }
+
   static isInspectorEnabled(pod: Pod, options?: PageBuilderOptions) {
-    return (
-      options?.inspector?.enabled ?? (pod.env.dev || pod.env.name === 'staging')
-    );
+    return options?.inspector?.enabled ?? PageBuilder.isDevOrStaging(pod);
   }
 
   static async build(
@@ -243,8 +653,22 @@ export class PageBuilder {
   static register(pod: Pod, options?: PageBuilderOptions) {
     SitemapPlugin.register(pod, {
       robotsTxtPath: options?.robotsTxt?.path,
+      robotsTxt: {
+        rules: options?.robotsTxt?.rules,
+        extra: options?.robotsTxt?.extra,
+      },
       sitemapPath: options?.sitemapXml?.path,
+      sitemapIndexPath: options?.sitemapXml?.indexPath,
+      maxUrlsPerSitemap: options?.sitemapXml?.maxUrls,
+      maxSitemapBytes: options?.sitemapXml?.maxBytes,
+      includeLocalizedUrls: options?.sitemapXml?.includeLocalizedUrls,
+      media: options?.sitemapXml?.media,
+      news: options?.sitemapXml?.news,
+      partialContentPaths: options?.partialPaths?.content,
     });
+    if (options?.csp?.output === 'headers') {
+      CspHeadersPlugin.register(pod, options.csp);
+    }
     if (PageBuilder.isInspectorEnabled(pod, options)) {
       PartialPreviewRouteProvider.register(pod, {
         pageBuilderOptions: options || {},
@@ -266,12 +690,40 @@ export class PageBuilder {
     return this.doc.fields[name] ?? this.doc.collection?.fields[name];
   }
 
+  /**
+   * Returns a list option of `head` or `body`, e.g. `head.stylesheets`, merged
+   * with the same list from the `head` or `body` field of the collection and
+   * the document. Lists are concatenated, in that order, so that collections
+   * and documents can load their own resources and templates.
+   */
+  getMergedListOption<
+    S extends 'head' | 'body',
+    K extends keyof NonNullable<PageBuilderOptions[S]> &
+      ('extra' | 'prepend' | 'scripts' | 'stylesheets')
+  >(section: S, key: K): NonNullable<NonNullable<PageBuilderOptions[S]>[K]> {
+    type List = NonNullable<NonNullable<PageBuilderOptions[S]>[K]>;
+    const options = this.options[section] as NonNullable<PageBuilderOptions[S]> | undefined;
+    const lists: (List | undefined)[] = [
+      options?.[key],
+      this.doc.collection?.fields[section]?.[key],
+      this.doc.fields[section]?.[key],
+    ];
+    return ([] as unknown[]).concat(...lists.map(list => list ?? [])) as List;
+  }
+
   async buildBodyTag() {
-    if (this.options.body?.class) {
-      const className =
-        typeof this.options.body?.class === 'function'
-          ? await this.options.body?.class(this.context)
-          : this.options.body?.class;
+    const globalClass =
+      typeof this.options.body?.class === 'function'
+        ? await this.options.body?.class(this.context)
+        : this.options.body?.class;
+    const className = [
+      globalClass,
+      this.doc.collection?.fields.body?.class,
+      this.doc.fields.body?.class,
+    ]
+      .filter(value => value)
+      .join(' ');
+    if (className) {
       return html`<body class="${className}">`;
     } else {
       return html`<body>`;
@@ -289,8 +741,8 @@ export class PageBuilder {
       ${await this.buildHeadElement()}
       ${await this.buildBodyTag()}
         ${
-          this.options.body?.prepend
-            ? safeString(await this.buildExtraElements(this.options.body?.prepend))
+          this.getMergedListOption('body', 'prepend').length
+            ? safeString(await this.buildExtraElements(this.getMergedListOption('body', 'prepend')))
             : ''
         }
         <div class="main">
@@ -301,13 +753,7 @@ export class PageBuilder {
           }
           <main>
             ${safeString(
-              (
-                await Promise.all(
-                  ((partials as any[]) ?? []).map((partial: Partial) =>
-                    this.buildPartialElement(partial)
-                  )
-                )
-              ).join('\n')
+              (await this.buildPartialElements((partials as any[]) ?? [])).join('\n')
             )}
           </main>
           ${
@@ -317,10 +763,11 @@ export class PageBuilder {
           }
         </div>
         ${
-          this.options.body?.extra
-            ? safeString(await this.buildExtraElements(this.options.body?.extra))
+          this.getMergedListOption('body', 'extra').length
+            ? safeString(await this.buildExtraElements(this.getMergedListOption('body', 'extra')))
             : ''
         }
+        ${this.buildLazyPartialLoaderElement()}
         ${this.enableInspector ?
           html`
             <page-inspector
@@ -331,14 +778,32 @@ export class PageBuilder {
       </body>
       </html>
     `;
+    this.checkPartialErrors();
+    if (this.nonce && this.options.csp?.output === 'headers' && this.doc.url) {
+      CspHeadersPlugin.get(this.pod)?.addPolicy(
+        this.doc.url.path,
+        this.getContentSecurityPolicy()
+      );
+    }
     let text = result.toString();
     // Insert collected preconnect elements.
-    if (this.preconnectOrigins.size > 0) {
-      const preconnectElements = this.buildPreconnectElements([...this.preconnectOrigins]).join('\n');
-      text = text.replace(PRECONNECT_MARKER, preconnectElements);
+    const preconnectOrigins = [
+      ...(this.options.preconnect?.origins ?? []).map(PageBuilder.toPreconnectOrigin),
+      ...this.preconnectOrigins,
+    ];
+    if (preconnectOrigins.length > 0) {
+      const preconnectElements = this.buildPreconnectElements(preconnectOrigins).join('\n');
+      text = text.replace(PRECONNECT_MARKER, () => preconnectElements);
     } else {
       text = text.replace(PRECONNECT_MARKER, '');
     }
+    // Insert hints for the partials' resources. Replacement functions are used
+    // so that `$` sequences within the inserted values are not expanded.
+    const resourceHintElements = this.buildResourceHintElements();
+    text = text.replace(RESOURCE_HINTS_MARKER, () => resourceHintElements);
+    // Insert structured data, including entries added by partials.
+    const structuredDataElements = this.buildStructuredDataElements();
+    text = text.replace(STRUCTURED_DATA_MARKER, () => structuredDataElements);
     if (this.options.beautify === false) {
       return text;
     }
@@ -365,60 +830,101 @@ export class PageBuilder {
   }
 
   getHtmlLang(locale: Locale) {
-    return locale.id.replace('_ALL', '').replace('_', '-');
+    return getHreflang(locale) ?? locale.id;
   }
 
-  serializeContext(partialContext: any) {
+  /**
+   * Serializes a partial's context, without modifying it, using the `context`
+   * options. Fields used only by the page builder are omitted.
+   * @param partialContext The context, i.e. `{partial: ...}` or a partial.
+   * @param name The partial's name, used to select per-partial options.
+   */
+  serializeContext(partialContext: any, name?: string) {
     const context = {...partialContext};
-    delete context.partial.absolutePath;
-    delete context.partial.includeInspector;
-    return JSON.stringify(context, ((key, value) => {
-      if (value?.constructor?.name === 'Pod' && value.root) {
-        return undefined;
-      }
-      if (value?.constructor?.name === 'Locale' && value.podPath) {
-        return (value as Locale).id;
-      }
-      if (value?.constructor?.name === 'Url' && value.podPath) {
-        return (value as Url).toString();
-      }
-      if (DataType.isDocument(value)) {
-        const doc = value as Document;
-        return {
-          body: doc.body,
-          fields: doc.fields,
-          locale: doc.locale.id,
-        };
-      }
-      return value;
-    }), 2);
+    if (context.partial && typeof context.partial === 'object') {
+      const {
+        absolutePath: _absolutePath,
+        includeInspector: _includeInspector,
+        ...partial
+      } = context.partial;
+      context.partial = partial;
+    }
+    const {partials, maxBytes: _maxBytes, ...options} =
+      this.options.context ?? {};
+    return serializeContext(context, {
+      ...options,
+      ...(name ? partials?.[name] : {}),
+    });
   }
 
-  async buildContextElement(context: any) {
+  /**
+   * Builds the `<page-module-context>` element for a partial. The size of the
+   * serialized context is collected in `contextSizes`, and reported if it
+   * exceeds `context.maxBytes`.
+   */
+  async buildContextElement(context: any, name?: string, position?: number) {
+    const json = this.serializeContext(context.partial, name);
+    const bytes = Buffer.byteLength(json);
+    if (name !== undefined && position !== undefined) {
+      this.contextSizes.push({name, position, bytes});
+    }
+    const maxBytes = this.options.context?.maxBytes ?? DEFAULT_MAX_CONTEXT_BYTES;
+    if (bytes > maxBytes) {
+      console.warn(
+        `Large context for partial: ${name} (position ${position} in ${this.doc.podPath}): ${bytes} bytes`
+      );
+    }
     return html`
       <page-module-context>
-        <script type="application/json">
-          ${safeString(this.serializeContext(
-            context.partial
-          ))}
+        <script type="application/json"${this.buildNonceAttribute()}>
+          ${safeString(json)}
         </script>
       </page-module-context>
     `;
   }
 
-  static selectPodPath(pod: Pod, pathFormats: string[], partial: string) {
-    for (const pathFormat of pathFormats) {
-      const podPath = interpolate(pod, pathFormat, {
+  /** Returns the pod paths for a partial, interpolated from a list of path formats. */
+  static getPodPaths(pod: Pod, pathFormats: string[], partial: string) {
+    return pathFormats.map(pathFormat =>
+      interpolate(pod, pathFormat, {
         partial: {partial: partial},
-      });
-      if (pod.fileExists(podPath)) {
-        return podPath;
-      }
-    }
+      })
+    );
+  }
+
+  static selectPodPath(pod: Pod, pathFormats: string[], partial: string) {
+    return PageBuilder.getPodPaths(pod, pathFormats, partial).find(podPath =>
+      pod.fileExists(podPath)
+    );
+  }
+
+  /** Returns the name of a partial, or its preset if the partial is unresolved. */
+  static getPartialName(partial: Partial): string {
+    return typeof partial.partial === 'string'
+      ? partial.partial
+      : partial.partial?.partial ?? partial.preset;
+  }
+
+  /** The path formats for shared partial content. */
+  get contentPathFormats() {
+    return this.partialPaths.content ?? DEFAULT_PARTIAL_CONTENT_PATHS;
+  }
+
+  /** Returns the pod path of a partial's shared content, if it exists. */
+  getContentPodPath(name: string) {
+    return PageBuilder.selectPodPath(this.pod, this.contentPathFormats, name);
+  }
+
+  /** Resolves a partial that references a shared preset. See `resolvePartialPreset`. */
+  resolvePartialPreset(partial: Partial) {
+    return resolvePartialPreset(this.pod, partial, {
+      locale: this.context.doc.locale,
+      pathFormats: this.contentPathFormats,
+    });
   }
 
   async buildBuiltinPartial(partial: string) {
-    const contentPodPath = PageBuilder.selectPodPath(this.pod, this.partialPaths.content ?? ['/content/partials/${partial.partial}.yaml'], partial);
+    const contentPodPath = this.getContentPodPath(partial);
     const viewPodPath = PageBuilder.selectPodPath(this.pod, this.partialPaths.view, partial);
     return viewPodPath
       ? html`
@@ -436,8 +942,9 @@ export class PageBuilder {
   async buildHeadElement() {
     return html`
       <head>
-        ${this.options.head?.prepend
-          ? safeString(await this.buildExtraElements(this.options.head.prepend))
+        ${this.buildCspElements()}
+        ${this.getMergedListOption('head', 'prepend').length
+          ? safeString(await this.buildExtraElements(this.getMergedListOption('head', 'prepend')))
           : ''}
         <meta charset="utf-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -451,28 +958,38 @@ export class PageBuilder {
           locale: this.doc.locale.id,
           siteName:
             this.getFieldValue('siteName') ?? this.options.head?.siteName,
-          title: this.getFieldValue('title') ?? this.options.head?.siteName,
+          title: this.formatTitle(this.getTitleTemplate()),
+          socialTitle: this.formatTitle(
+            this.getFieldValue('socialTitleTemplate') ??
+              this.options.head?.socialTitleTemplate ??
+              DEFAULT_SOCIAL_TITLE_TEMPLATE
+          ),
           twitterSite:
             this.getFieldValue('twitterSite') ?? this.options.head?.twitterSite,
           url: (this.doc.url as Url).toString(),
-          appendSiteName: this.getFieldValue('appendSiteName') ?? this.options.head?.appendSiteName ?? true,
+          social: this.getSocialMetadata(),
+          alternateLocales: [...this.doc.locales]
+            .filter(locale => locale !== this.doc.locale)
+            .map(locale => locale.id),
         })}
         ${this.buildHreflangLinkElements()}
         ${this.buildHeadLinkElements({
           icon: this.getFieldValue('icon') ?? this.options.head?.icon,
         })}
+        ${safeString(RESOURCE_HINTS_MARKER)}
         ${safeString(
-          this.options.head?.stylesheets
-            ?.map(style => this.buildStyleLinkElement(style, undefined))
-            .join('\n') ?? ''
+          (await this.filterResources(this.getMergedListOption('head', 'stylesheets')))
+            .map(style => this.buildStyleLinkElement(style, undefined))
+            .join('\n')
         )}
         ${safeString(
-          this.options.head?.scripts
-            ?.map(script => this.buildScriptElement(script, undefined))
-            .join('\n') ?? ''
+          (await this.filterResources(this.getMergedListOption('head', 'scripts')))
+            .map(script => this.buildScriptElement(script, undefined))
+            .join('\n')
         )}
-        ${this.options.head?.extra
-          ? safeString(await this.buildExtraElements(this.options.head.extra))
+        ${safeString(STRUCTURED_DATA_MARKER)}
+        ${this.getMergedListOption('head', 'extra').length
+          ? safeString(await this.buildExtraElements(this.getMergedListOption('head', 'extra')))
           : ''}
         ${safeString(
           this.enableInspector
@@ -489,17 +1006,117 @@ export class PageBuilder {
     `;
   }
 
+  /** Returns the page's Content Security Policy. See `csp`. */
+  getContentSecurityPolicy() {
+    return buildContentSecurityPolicy(
+      this.nonce as string,
+      this.options.csp?.directives
+    );
+  }
+
+  /** Builds the `nonce` attribute for elements, if `csp` is enabled. */
+  buildNonceAttribute() {
+    // Nonces are base64, so don't require escaping.
+    return this.nonce ? safeString(` nonce="${this.nonce}"`) : '';
+  }
+
+  /**
+   * Builds the Content Security Policy `<meta>` element (unless the policy is
+   * delivered as a header) and the script that loads asynchronous styles, if
+   * `csp` is enabled.
+   */
+  buildCspElements() {
+    if (!this.nonce) {
+      return '';
+    }
+    return html`
+      ${this.options.csp?.output !== 'headers'
+        ? html`<meta
+            http-equiv="Content-Security-Policy"
+            content="${this.getContentSecurityPolicy()}"
+          >`
+        : ''}
+      <script${this.buildNonceAttribute()}>${safeString(ASYNC_STYLE_LOADER_SCRIPT)}</script>
+    `;
+  }
+
+  /**
+   * Flags `<script>` and `<style>` elements in a partial's output, or in the
+   * output of an extra template (such as `head.extra`), that lack the page's
+   * nonce, and would therefore be blocked by the Content Security Policy.
+   * Violations are logged and collected in `partialViolations`.
+   * @param name The partial's name, or the extra template's pod path.
+   * @param position The partial's position. Unset for extra templates.
+   */
+  checkPartialNonces(content: string, name: string, position?: number) {
+    const violations = findElementsWithoutNonce(content).map(
+      tag => `${tag}: missing nonce, use nonce="{{pageBuilder.nonce}}"`
+    );
+    if (violations.length) {
+      this.partialViolations.push({name, position, violations});
+      const location =
+        position === undefined
+          ? `template: ${name} (in ${this.doc.podPath})`
+          : `partial: ${name} (position ${position} in ${this.doc.podPath})`;
+      console.warn(
+        `Elements blocked by Content Security Policy in ${location}\n  ${violations.join('\n  ')}`
+      );
+    }
+  }
+
+  /**
+   * Adds JSON-LD structured data to the page. Used by partials to contribute
+   * entries, e.g. an FAQ partial adding an `FAQPage`:
+   *
+   * ```
+   * {{pageBuilder.addStructuredData({'@type': 'FAQPage', mainEntity: [...]})}}
+   * ```
+   * @returns An empty string, so the call outputs nothing when used in a
+   * template.
+   */
+  addStructuredData(data: StructuredData | StructuredData[]) {
+    this.structuredData.push(...(Array.isArray(data) ? data : [data]));
+    return '';
+  }
+
+  /**
+   * Builds `<script type="application/ld+json">` elements for the global,
+   * page-level (`structuredData` field), and partial-level structured data.
+   */
+  buildStructuredDataElements() {
+    const fieldValue = this.getFieldValue('structuredData') ?? [];
+    const entries: StructuredData[] = [
+      ...(this.options.head?.structuredData ?? []),
+      ...(Array.isArray(fieldValue) ? fieldValue : [fieldValue]),
+      ...this.structuredData,
+    ];
+    return entries
+      .map(data => html`
+        <script type="application/ld+json"${this.buildNonceAttribute()}>${safeString(serializeStructuredData(data))}</script>
+      `)
+      .join('\n');
+  }
+
   async buildExtraElements(extra: string[]) {
-    const html = (
-      await Promise.all(extra.map(podPath => this.renderFile(podPath)))
-    ).join('\n');
+    const results = await Promise.all(
+      extra.map(podPath => this.renderFile(podPath))
+    );
+    if (this.nonce) {
+      results.forEach((result, i) => this.checkPartialNonces(result, extra[i]));
+    }
+    const html = results.join('\n');
     this.collectPreconnectOrigins(html);
     return html;
   }
 
+  /**
+   * Renders a template, such as `head.extra`, with the page's context. As with
+   * partials, `pageBuilder` is available to the template, e.g. for
+   * `{{pageBuilder.nonce}}`.
+   */
   async renderFile(podPath: string) {
     const engine = this.pod.engines.getEngineByFilename(podPath);
-    return await engine.render(podPath, this.context);
+    return await engine.render(podPath, {...this.context, pageBuilder: this});
   }
 
   buildHreflangLinkElements() {
@@ -521,12 +1138,12 @@ export class PageBuilder {
         : ''}
       ${safeString([...this.doc.locales]
         .filter(locale => {
-          return locale !== this.doc.defaultLocale;
+          return locale !== this.doc.defaultLocale && getHreflang(locale);
         })
         .map(locale => {
           return html`<link
             href="${this.getUrl(this.pod.doc(this.doc.podPath, locale).url)}"
-            hreflang="${this.getHtmlLang(locale)}"
+            hreflang="${getHreflang(locale)}"
             rel="alternate"
           >`;
         })
@@ -547,20 +1164,115 @@ export class PageBuilder {
     `;
   }
 
+  /**
+   * Returns the Open Graph and Twitter card metadata for the page, merging the
+   * document's `social` field over the collection's `social` field over
+   * `head.social`, field by field.
+   */
+  getSocialMetadata() {
+    const layers: SocialMetadata[] = [
+      this.options.head?.social ?? {},
+      this.doc.collection?.fields.social ?? {},
+      this.doc.fields.social ?? {},
+    ];
+    const social = layers.reduce(
+      (result: SocialMetadata, layer) => ({
+        ...result,
+        ...layer,
+        article: {...result.article, ...layer.article},
+      }),
+      {}
+    );
+    return {...social, image: this.getSocialImage()};
+  }
+
+  /**
+   * Returns the page's social image, from the highest layer (document, then
+   * collection, then global options) with an image URL, either from
+   * `social.image.url` or the layer's `image` field. The image's `width` and
+   * `height` are taken from the same layer, and its `alt` from the same or a
+   * higher layer.
+   */
+  getSocialImage(): SocialImage | undefined {
+    const layers = [
+      {image: this.doc.fields.image, social: this.doc.fields.social},
+      {
+        image: this.doc.collection?.fields.image,
+        social: this.doc.collection?.fields.social,
+      },
+      {image: this.options.head?.image, social: this.options.head?.social},
+    ];
+    let alt: string | undefined;
+    for (const layer of layers) {
+      const socialImage: SocialImage = layer.social?.image ?? {};
+      alt = alt ?? socialImage.alt;
+      const url = socialImage.url ?? layer.image;
+      if (url) {
+        return {
+          url: url,
+          width: socialImage.width,
+          height: socialImage.height,
+          alt: alt,
+        };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the template used to build the page's <title>, falling back from
+   * the document to the collection to the `head.titleTemplate` option.
+   */
+  getTitleTemplate(): string {
+    const titleTemplate =
+      this.getFieldValue('titleTemplate') ?? this.options.head?.titleTemplate;
+    if (titleTemplate) {
+      return titleTemplate;
+    }
+    const appendSiteName =
+      this.getFieldValue('appendSiteName') ??
+      this.options.head?.appendSiteName;
+    return appendSiteName === false ? '%s' : DEFAULT_TITLE_TEMPLATE;
+  }
+
+  /**
+   * Formats a title template using the page's `title` and `siteName`. Returns
+   * just the site name if the page has no title, and just the title if there
+   * is no site name.
+   */
+  formatTitle(template: string) {
+    const title = this.getFieldValue('title');
+    const siteName =
+      this.getFieldValue('siteName') ?? this.options.head?.siteName;
+    if (!title || !siteName) {
+      return title ?? siteName;
+    }
+    return template.replace(/%siteName%|%s/g, match =>
+      match === '%s' ? title : siteName
+    );
+  }
+
   buildHeadMetaElements(options: {
-    appendSiteName?: boolean;
+    alternateLocales?: string[];
     description?: string;
     image?: string;
     locale?: string;
     noIndex?: boolean;
     siteName?: string;
+    social?: SocialMetadata;
+    socialTitle?: string;
     themeColor?: string;
-    title: string;
+    title?: string;
     twitterSite?: string;
     url: string;
   }) {
+    const social = options.social ?? {};
+    const image = social.image?.url ?? options.image;
+    const article = social.article ?? {};
+    const formatDate = (value: string | Date) =>
+      value instanceof Date ? value.toISOString() : value;
     return html`
-      ${options.title ? html`<title>${options.title} ${options.appendSiteName ? ` | ${options.siteName}` : ''}</title>` : ''}
+      ${options.title ? html`<title>${options.title}</title>` : ''}
       ${options.description
         ? html`<meta name="description" content="${options.description}">`
         : ''}
@@ -570,13 +1282,13 @@ export class PageBuilder {
       ${options.noIndex ? html`<meta name="robots" content="noindex">` : ''}
       ${safeString(PRECONNECT_MARKER)}
       <meta name="referrer" content="no-referrer">
-      <meta property="og:type" content="website">
+      <meta property="og:type" content="${social.type ?? 'website'}">
       ${options.siteName
         ? html`<meta property="og:site_name" content="${options.siteName}">`
         : ''}
       <meta property="og:url" content="${options.url}">
-      ${options.title
-        ? html`<meta property="og:title" content="${options.title}">`
+      ${options.socialTitle
+        ? html`<meta property="og:title" content="${options.socialTitle}">`
         : ''}
       ${options.description
         ? html`<meta
@@ -584,25 +1296,60 @@ export class PageBuilder {
             content="${options.description}"
          >`
         : ''}
-      ${options.image
+      ${image
         ? html`<meta
             property="og:image"
-            content="${this.getUrl(options.image, {
+            content="${this.getUrl(image, {
               includeDomain: true,
             })}"
          >`
         : ''}
+      ${image && social.image?.width
+        ? html`<meta property="og:image:width" content="${social.image.width}">`
+        : ''}
+      ${image && social.image?.height
+        ? html`<meta property="og:image:height" content="${social.image.height}">`
+        : ''}
+      ${image && social.image?.alt
+        ? html`<meta property="og:image:alt" content="${social.image.alt}">`
+        : ''}
       ${options.locale
         ? html`<meta property="og:locale" content="${options.locale}">`
         : ''}
+      ${social.alternateLocales !== false
+        ? safeString((options.alternateLocales ?? [])
+            .map(locale => html`<meta property="og:locale:alternate" content="${locale}">`)
+            .join('\n'))
+        : ''}
+      ${article.publishedTime
+        ? html`<meta property="article:published_time" content="${formatDate(article.publishedTime)}">`
+        : ''}
+      ${article.modifiedTime
+        ? html`<meta property="article:modified_time" content="${formatDate(article.modifiedTime)}">`
+        : ''}
+      ${safeString((article.authors ?? [])
+        .map(author => html`<meta property="article:author" content="${author}">`)
+        .join('\n'))}
+      ${article.section
+        ? html`<meta property="article:section" content="${article.section}">`
+        : ''}
+      ${safeString((article.tags ?? [])
+        .map(tag => html`<meta property="article:tag" content="${tag}">`)
+        .join('\n'))}
       ${options.twitterSite
         ? html`<meta
             property="twitter:site"
             content="${options.twitterSite}"
          >`
         : ''}
-      ${options.title
-        ? html`<meta property="twitter:title" content="${options.title}">`
+      ${social.twitterCreator
+        ? html`<meta
+            property="twitter:creator"
+            content="${social.twitterCreator}"
+         >`
+        : ''}
+      ${options.socialTitle
+        ? html`<meta property="twitter:title" content="${options.socialTitle}">`
         : ''}
       ${options.description
         ? html`<meta
@@ -610,62 +1357,155 @@ export class PageBuilder {
             content="${options.description}"
          >`
         : ''}
-      ${options.image
+      ${image
         ? html`<meta
             property="twitter:image"
-            content="${this.getUrl(options.image, {includeDomain: true})}"
+            content="${this.getUrl(image, {includeDomain: true})}"
          >`
         : ''}
-      <meta property="twitter:card" content="summary_large_image">
+      ${image && social.image?.alt
+        ? html`<meta property="twitter:image:alt" content="${social.image.alt}">`
+        : ''}
+      <meta property="twitter:card" content="${social.card ?? 'summary_large_image'}">
     `;
   }
 
+  /**
+   * Renders a list of nested partials, e.g. the children of a container
+   * partial such as tabs or columns:
+   *
+   * ```
+   * <div class="columns">
+   *   {{pageBuilder.render(partial.columns)|await}}
+   * </div>
+   * ```
+   *
+   * Nested partials are built the same way as top-level partials, each with
+   * its own inspector and context. Positions are numbered in document order,
+   * so a container's children follow the container. Resources are loaded once
+   * for the whole page.
+   * @param partials A partial or a list of partials.
+   */
+  async render(partials?: Partial | Partial[]) {
+    const list = partials ? (Array.isArray(partials) ? partials : [partials]) : [];
+    const elements = await this.buildPartialElements(list);
+    return safeString(elements.join('\n'));
+  }
+
+  /**
+   * Builds the elements for a list of partials. Partials are built one at a
+   * time, so that the first instance of a partial on the page is the one that
+   * loads its resources.
+   */
+  async buildPartialElements(partials: Partial[]) {
+    const elements = [];
+    for (const partial of partials) {
+      elements.push(await this.buildPartialElement(partial));
+    }
+    return elements;
+  }
+
+  /**
+   * Builds the element for a partial. Each partial is isolated, so a partial
+   * that fails to render doesn't fail the rest of the page. See
+   * `handlePartialError`.
+   */
   async buildPartialElement(partial: Partial) {
-    // Support both:
+    // Support:
     // 1. {partial: 'foo', ...}
     // 2. {partial: {partial: 'foo', absolutePath: '/Users/foo/.../foo.njk'}, ...}
-    const name =
-      typeof partial.partial === 'string'
-        ? partial.partial
-        : partial.partial?.partial;
+    // 3. {preset: 'foo', ...}
+    let name = PageBuilder.getPartialName(partial);
+    const position = (this.partialLoopIncrementer += 1);
+    const resourceCount = this.resourceUrls.length;
+    try {
+      partial = this.resolvePartialPreset(partial);
+      name = PageBuilder.getPartialName(partial);
+      return await this.renderPartialElement(partial, name, position);
+    } catch (err) {
+      // Release the resources claimed by the failed partial, so that the next
+      // instance of the same partial loads them instead.
+      const claimedUrls = this.resourceUrls.slice(resourceCount);
+      this.resourceUrls = this.resourceUrls.slice(0, resourceCount);
+      this.resourceHints = this.resourceHints.filter(
+        hint => !claimedUrls.includes(hint.url)
+      );
+      return this.handlePartialError(partial, name, position, err as Error);
+    }
+  }
+
+  async renderPartialElement(partial: Partial, name: string, position: number) {
     const cssPodPath = PageBuilder.selectPodPath(this.pod, this.partialPaths.css, name);
     const jsPodPath = PageBuilder.selectPodPath(this.pod, this.partialPaths.js, name);
     const viewPodPath = PageBuilder.selectPodPath(this.pod, this.partialPaths.view, name);
+    if (typeof partial.partial === 'string' && !viewPodPath) {
+      return this.buildPartialNotFoundElement(partial, name, position);
+    }
     const partialBuilder = [];
     const htmlId = partial.id ? ` id="${partial.id}"` : '';
-    partialBuilder.push(`<page-module${htmlId} partial="${name}" position="${this.partialLoopIncrementer+=1}">`);
-
-    // Load resources required by partial module.
-    if (cssPodPath) {
+    const critical = this.isCriticalPartial(partial, position);
+    const lazy = partial.loading === 'lazy';
+    const lazyResources = lazy
+      ? this.getLazyResources(critical ? undefined : cssPodPath, jsPodPath)
+      : [];
+    const lazyAttributes = lazy
+      ? ` ${html`loading="lazy" data-lazy-resources="${JSON.stringify(lazyResources)}"`}`
+      : '';
+    partialBuilder.push(`<page-module${htmlId} partial="${name}" position="${position}"${lazyAttributes}>`);
+
+    // Load resources required by partial module. Resources of lazy partials
+    // are loaded by the client when the partial nears the viewport.
+    if (cssPodPath && (critical || !lazy)) {
       const cssFile = this.pod.staticFile(cssPodPath)
-      partialBuilder.push(this.buildStyleLinkElement(cssFile));
+      if (critical) {
+        partialBuilder.push(this.buildInlineStyleElement(cssFile));
+      } else {
+        const element = this.buildStyleLinkElement(cssFile, true, true);
+        if (element) {
+          this.addResourceHint({
+            url: this.getResourceUrl(cssFile),
+            as: 'style',
+            integrity: this.getIntegrity(cssFile),
+          });
+        }
+        partialBuilder.push(element);
+      }
     }
-    if (jsPodPath) {
+    if (jsPodPath && !lazy) {
       const jsFile = this.pod.staticFile(jsPodPath);
       const module = this.partialPaths.module;
-      partialBuilder.push(this.buildScriptElement({
+      const hoistScripts = this.options.resourceHints?.hoistScripts ?? false;
+      const element = this.buildScriptElement({
         href: jsFile,
         module: module,
-      }));
+      }, hoistScripts);
+      if (element) {
+        this.addResourceHint({
+          url: this.getResourceUrl(jsFile),
+          as: 'script',
+          module: module,
+          integrity: this.getIntegrity(jsFile),
+          element: hoistScripts ? element.toString() : undefined,
+        });
+      }
+      if (!hoistScripts) {
+        partialBuilder.push(element);
+      }
     }
+    const violations = viewPodPath
+      ? this.validatePartialContent(partial, name, position, viewPodPath)
+      : [];
     if (this.enableInspector && partial.partial?.includeInspector !== false) {
       partialBuilder.push(html`
-        <page-module-inspector></page-module-inspector>
+        <page-module-inspector
+          ${violations.length ? html`violations="${JSON.stringify(violations)}"` : ''}
+        ></page-module-inspector>
       `);
     }
-    const context = {...this.context, partial};
+    const context = {...this.context, partial, pageBuilder: this};
     let result;
     if (typeof partial.partial === 'string') {
-      // TODO: Handle error when partial doesn't exist. In this case, no file
-      // matched `viewPodPath` on the filesystem and `selectPodPath` failed. We
-      // should fail the build in prod and in dev show an in-page module saying
-      // `Partial not found: ${name}`. The user can then fix the source of the
-      // problem (by either adding the partial or by fixing the configuration).
-      if (!viewPodPath) {
-        console.error(`Partial not found: ${name}`);
-        return '';
-      }
-      const partialFile = interpolate(this.pod, viewPodPath, {
+      const partialFile = interpolate(this.pod, viewPodPath as string, {
         partial: partial,
       });
       const engine = this.pod.engines.getEngineByFilename(
@@ -679,6 +1519,13 @@ export class PageBuilder {
       const template = fs.readFileSync(partial.partial.absolutePath, 'utf8');
       result = await engine.renderFromString(template, context);
     }
+    this.collectPreconnectOrigins(result ?? '');
+    if (this.nonce) {
+      this.checkPartialNonces(result ?? '', name, position);
+    }
+    for (const url of this.getPartialImageUrls(partial)) {
+      this.collectPreconnectOrigins(url);
+    }
     if (this.options.beautifyContainer === false) {
       partialBuilder.push(`<page-module-container>${result?.trim()}</page-module-container>`);
     } else {
@@ -688,13 +1535,182 @@ export class PageBuilder {
     } 
     if (this.includeContext || partial.includeContext) {
       partialBuilder.push(
-        await this.buildContextElement(context)
+        await this.buildContextElement(context, name, position)
       );
     }
     partialBuilder.push('</page-module>');
     return safeString(partialBuilder.join('\n'));
   }
 
+  /**
+   * Returns the resources of a lazy partial, to be loaded by the client when
+   * the partial nears the viewport. Resources already loaded by the page are
+   * omitted.
+   */
+  getLazyResources(cssPodPath?: string, jsPodPath?: string) {
+    this.hasLazyPartials = true;
+    const resources: ResourceHint[] = [];
+    if (cssPodPath) {
+      const cssFile = this.pod.staticFile(cssPodPath);
+      resources.push({
+        url: this.getResourceUrl(cssFile),
+        as: 'style',
+        integrity: this.getIntegrity(cssFile),
+      });
+    }
+    if (jsPodPath) {
+      const jsFile = this.pod.staticFile(jsPodPath);
+      resources.push({
+        url: this.getResourceUrl(jsFile),
+        as: 'script',
+        module: this.partialPaths.module,
+        integrity: this.getIntegrity(jsFile),
+      });
+    }
+    return resources.filter(
+      resource => !this.resourceUrls.includes(resource.url)
+    );
+  }
+
+  /**
+   * Builds the script that loads the resources of lazy partials when they near
+   * the viewport, if the page has any lazy partials.
+   */
+  buildLazyPartialLoaderElement() {
+    if (!this.hasLazyPartials) {
+      return '';
+    }
+    return html`<script${this.buildNonceAttribute()}>${safeString(LAZY_PARTIAL_LOADER_SCRIPT)}</script>`;
+  }
+
+  /**
+   * Returns whether a partial's CSS should be inlined, either because it's
+   * marked `critical: true` or because it's among the first partials on the
+   * page. See `criticalCss`.
+   */
+  isCriticalPartial(partial: Partial, position: number) {
+    return (
+      partial.critical === true ||
+      position <= (this.options.criticalCss?.partials ?? 0)
+    );
+  }
+
+  /**
+   * Handles a partial whose view doesn't exist. Fails the build in prod, even
+   * with `onPartialError: 'drop'`. In dev and staging, returns an in-page placeholder
+   * module listing the pod paths that were tried and the partial's data, so
+   * the user can fix the source of the problem (by either adding the partial
+   * or by fixing the configuration).
+   */
+  buildPartialNotFoundElement(partial: Partial, name: string, position: number) {
+    const podPaths = PageBuilder.getPodPaths(this.pod, this.partialPaths.view, name);
+    const message = `Partial not found: ${name} (position ${position} in ${this.doc.podPath})`;
+    console.error(message);
+    if (!PageBuilder.isDevOrStaging(this.pod)) {
+      this.partialErrors.push({
+        error: new Error(`${message}. Tried: ${podPaths.join(', ')}`),
+        name,
+        position,
+        missing: true,
+      });
+      return '';
+    }
+    return this.buildPlaceholderElement(name, position, html`
+      <p>${message}</p>
+      <p>Tried:</p>
+      <ul>
+        ${safeString(podPaths.map(podPath => html`<li>${podPath}</li>`).join('\n'))}
+      </ul>
+      <pre>${this.serializeContext(partial)}</pre>
+    `);
+  }
+
+  /**
+   * Builds a visible placeholder module, used in dev and staging in place of
+   * partials that could not be built.
+   */
+  buildPlaceholderElement(name: string, position: number, content: ReturnType<typeof html>) {
+    return html`
+      <page-module partial="${name}" position="${position}">
+        <page-module-container>
+          <div class="page-builder-placeholder" style="border: 2px dashed #d93025; color: #d93025; font-family: monospace; padding: 16px; white-space: pre-wrap;">
+            ${content}
+          </div>
+        </page-module-container>
+      </page-module>
+    `;
+  }
+
+  /**
+   * Throws an error reporting every partial that failed to render, unless the
+   * failed partials are rendered as error cards (in dev and staging) or
+   * dropped (with `onPartialError: 'drop'`). Missing partials are never
+   * dropped.
+   */
+  checkPartialErrors() {
+    if (PageBuilder.isDevOrStaging(this.pod)) {
+      return;
+    }
+    const errors =
+      this.options.onPartialError === 'drop'
+        ? this.partialErrors.filter(partialError => partialError.missing)
+        : this.partialErrors;
+    if (!errors.length) {
+      return;
+    }
+    const details = errors
+      .map(({error, name, position}) => `  ${name} (position ${position}): ${error.message}`)
+      .join('\n');
+    throw new Error(
+      `${errors.length} partial(s) failed to render in ${this.doc.podPath}:\n${details}`
+    );
+  }
+
+  /**
+   * Handles a partial that failed to render. The failure is collected, so that
+   * every failed partial is reported at once (see `checkPartialErrors`). In
+   * dev and staging, returns an inline error card with the stack trace and
+   * the partial's context. In prod, the partial is left out of the page.
+   */
+  handlePartialError(partial: Partial, name: string, position: number, error: Error) {
+    this.partialErrors.push({error, name, position});
+    const message = `Error rendering partial: ${name} (position ${position} in ${this.doc.podPath})`;
+    console.error(message);
+    console.error(error);
+    if (!PageBuilder.isDevOrStaging(this.pod)) {
+      return '';
+    }
+    return this.buildPlaceholderElement(name, position, html`
+      <p>${message}</p>
+      <pre>${error.stack ?? error.message}</pre>
+      <pre>${this.serializeContext(partial)}</pre>
+    `);
+  }
+
+  /**
+   * Validates a partial's content against the schema declared by its view, if
+   * any. Violations are reported with the document and position and collected
+   * in `partialViolations`.
+   * @returns The list of violations.
+   */
+  validatePartialContent(partial: Partial, name: string, position: number, viewPodPath: string) {
+    if (!this.partialSchemas.has(viewPodPath)) {
+      this.partialSchemas.set(viewPodPath, loadPartialSchema(this.pod, viewPodPath));
+    }
+    const schema = this.partialSchemas.get(viewPodPath);
+    if (!schema) {
+      return [];
+    }
+    const violations = validatePartial(partial, schema);
+    if (violations.length) {
+      this.partialViolations.push({name, position, violations});
+      console.warn(
+        `Invalid content for partial: ${name} (position ${position} in ${this.doc.podPath})\n  ${violations.join('\n  ')}`
+      );
+    }
+    return violations;
+  }
+
   getHrefFromResource(
     resource: Resource,
     options?: GetHrefFromResourceOptions
@@ -713,10 +1729,91 @@ export class PageBuilder {
     return resource;
   }
 
+  /**
+   * Returns whether the page meets a resource's conditions, i.e. its
+   * `environments`, `locales`, `collections` and `condition`.
+   */
+  async isResourceEnabled(resource: Resource) {
+    const loader = this.getResourceLoader(resource);
+    if (!loader) {
+      return true;
+    }
+    const env = this.pod.env;
+    if (
+      loader.environments &&
+      !loader.environments.includes(env.name) &&
+      !(env.dev && loader.environments.includes('dev'))
+    ) {
+      return false;
+    }
+    if (loader.locales && !loader.locales.includes(this.doc.locale.id)) {
+      return false;
+    }
+    if (loader.collections) {
+      const collectionPodPath = this.doc.collection?.podPath;
+      if (
+        !collectionPodPath ||
+        !loader.collections.some(pattern => matchesGlob(collectionPodPath, pattern))
+      ) {
+        return false;
+      }
+    }
+    if (loader.condition) {
+      return await loader.condition(this.context);
+    }
+    return true;
+  }
+
+  /** Returns the resources whose conditions are met by the page. */
+  async filterResources(resources?: Resource[]) {
+    const enabled = await Promise.all(
+      (resources ?? []).map(resource => this.isResourceEnabled(resource))
+    );
+    return (resources ?? []).filter((resource, i) => enabled[i]);
+  }
+
+  /** Returns the loader options for a resource, if it's a `ResourceLoader`. */
+  getResourceLoader(resource: Resource): ResourceLoader | undefined {
+    if (DataType.isStaticFile(resource) || typeof resource === 'string') {
+      return undefined;
+    }
+    return resource as ResourceLoader;
+  }
+
+  /**
+   * Builds the attributes for a resource's `<script>` or `<link>` element from
+   * its loader options, including its Subresource Integrity hash.
+   */
+  buildResourceAttributes(resource: Resource) {
+    const loader = this.getResourceLoader(resource);
+    const integrity = this.getIntegrity(resource);
+    const attributes: Record<string, string | boolean | undefined> = {
+      integrity: integrity,
+      crossorigin: loader?.crossorigin ?? (integrity ? 'anonymous' : undefined),
+      fetchpriority: loader?.fetchpriority,
+      media: loader?.media,
+      nomodule: loader?.nomodule,
+    };
+    for (const [key, value] of Object.entries(loader?.data ?? {})) {
+      attributes[`data-${key}`] = value;
+    }
+    return safeString(
+      Object.entries(attributes)
+        .filter(([, value]) => value !== undefined && value !== false)
+        .map(([name, value]) =>
+          value === true ? ` ${name}` : ` ${html`${safeString(name)}="${value}"`}`
+        )
+        .join('')
+    );
+  }
+
   buildScriptElement(resource: Resource, defer = false, async = false) {
     const href = this.getHrefFromResource(resource);
     const url = this.getUrl(href, {relative: true});
-    const module = (resource as ResourceLoader)?.module;
+    const loader = this.getResourceLoader(resource);
+    const module = loader?.module;
+    defer = loader?.defer ?? defer;
+    async = loader?.async ?? async;
     // Resource has already been loaded, don't build again.
     if (this.resourceUrls.includes(url)) {
       return '';
@@ -727,32 +1824,96 @@ export class PageBuilder {
       );
     }
     this.resourceUrls.push(url);
+    this.collectPreconnectOrigins(url);
     return html`
       <script
         src="${url}"
         ${module ? html`type="module"` : ''}
         ${defer ? 'defer' : ''}
         ${async ? 'async' : ''}
+        ${this.buildResourceAttributes(resource)}
+        ${this.buildNonceAttribute()}
       ></script>
     `;
   }
 
+  static toPreconnectOrigin(origin: PreconnectOrigin | string): PreconnectOrigin {
+    return typeof origin === 'string' ? {url: origin} : origin;
+  }
+
   /** Returns a list of origins to preconnect to given a string. */
   getPreconnectOrigins(content: string): PreconnectOrigin[] {
     const origins: PreconnectOrigin[] = [];
-    if (/https:\/\/fonts.googleapis.com/g.test(content)) {
-      origins.push({url: 'https://fonts.gstatic.com', crossorigin: true});
-      origins.push({url: 'https://fonts.googleapis.com', crossorigin: true});
-    }
-    if (/https:\/\/www.google-analytics.com/g.test(content)) {
-      origins.push({url: 'https://www.google-analytics.com', crossorigin: false});
+    const rules = [
+      ...DEFAULT_PRECONNECT_RULES,
+      ...(this.options.preconnect?.rules ?? []),
+    ];
+    for (const rule of rules) {
+      const matches =
+        typeof rule.pattern === 'string'
+          ? content.includes(rule.pattern)
+          : new RegExp(rule.pattern.source, rule.pattern.flags.replace('g', '')).test(content);
+      if (matches) {
+        origins.push(...rule.origins.map(PageBuilder.toPreconnectOrigin));
+      }
     }
-    if (/https:\/\/www.googletagmanager.com\/gtm.js\?id=/g.test(content)) {
-      origins.push({url: 'https://www.googletagmanager.com', crossorigin: false});
+    if (this.options.preconnect?.detectThirdParty) {
+      origins.push(
+        ...this.getThirdPartyOrigins(content).map(url => ({url: url}))
+      );
     }
     return origins;
   }
 
+  /**
+   * Returns the third-party origins of the resources loaded by the given
+   * resource URL or HTML, limited to `preconnect.allowlist` if set.
+   */
+  getThirdPartyOrigins(content: string) {
+    const allowlist = this.options.preconnect?.allowlist;
+    const origins = new Set<string>();
+    const pattern = new RegExp(RESOURCE_ORIGIN_PATTERN);
+    let match;
+    while ((match = pattern.exec(content))) {
+      let url: URL;
+      try {
+        url = new URL(match[1]);
+      } catch (err) {
+        continue;
+      }
+      if (url.hostname === this.pod.env.host) {
+        continue;
+      }
+      if (allowlist && !allowlist.includes(url.origin)) {
+        continue;
+      }
+      origins.add(url.origin);
+    }
+    return [...origins];
+  }
+
+  /**
+   * Returns the URLs of images in a partial's content, i.e. the `url` of any
+   * field whose key ends in `image`.
+   */
+  getPartialImageUrls(partial: Partial) {
+    const urls: string[] = [];
+    const walk = (key: string, value: any) => {
+      if (Array.isArray(value)) {
+        value.forEach(item => walk(key, item));
+      } else if (value && typeof value === 'object') {
+        if (/image$/i.test(key) && typeof value.url === 'string') {
+          urls.push(value.url);
+        }
+        for (const [childKey, childValue] of Object.entries(value)) {
+          walk(childKey, childValue);
+        }
+      }
+    };
+    walk('', partial);
+    return urls;
+  }
+
   collectPreconnectOrigins(content: string) {
     const origins = this.getPreconnectOrigins(content);
     if (origins) {
@@ -764,24 +1925,160 @@ export class PageBuilder {
 
   buildPreconnectElements(origins: PreconnectOrigin[]) {
     const added = new Set<string>();
-    return origins.map(({url, crossorigin}) => {
+    return origins.map(({url, crossorigin, dnsPrefetch}) => {
       if (!added.has(url)) {
         added.add(url);
+        if (dnsPrefetch) {
+          return html`<link rel="dns-prefetch" href="${url}">`;
+        }
         return html`<link rel="preconnect" href="${url}"${crossorigin ? 'crossorigin' : ''}>`;
       }
       return '';
     });
   }
 
+  /**
+   * Returns the Subresource Integrity hash for a resource: either the hash
+   * pinned on the resource, or, if `subresourceIntegrity` is enabled, the
+   * SHA-384 hash of a static file's contents. File hashes are shared by every
+   * page of the pod.
+   */
+  getIntegrity(resource: Resource): string | undefined {
+    if ((resource as ResourceLoader)?.integrity) {
+      return (resource as ResourceLoader).integrity;
+    }
+    if (!this.options.subresourceIntegrity) {
+      return undefined;
+    }
+    const file = DataType.isStaticFile(resource)
+      ? resource
+      : (resource as ResourceLoader)?.href;
+    if (!DataType.isStaticFile(file)) {
+      return undefined;
+    }
+    let hashes = integrityHashes.get(this.pod);
+    if (!hashes) {
+      hashes = new Map();
+      integrityHashes.set(this.pod, hashes);
+    }
+    const podPath = (file as StaticFile).podPath;
+    const absolutePath = this.pod.getAbsoluteFilePath(podPath);
+    const modified = fs.statSync(absolutePath).mtimeMs;
+    const cached = hashes.get(podPath);
+    if (cached?.modified === modified) {
+      return cached.integrity;
+    }
+    const content = fs.readFileSync(absolutePath);
+    const hash = crypto.createHash('sha384').update(content).digest('base64');
+    const integrity = `sha384-${hash}`;
+    hashes.set(podPath, {modified, integrity});
+    return integrity;
+  }
+
+  /** Builds the `integrity` and `crossorigin` attributes for a hash. */
+  buildIntegrityAttributes(integrity?: string) {
+    return integrity
+      ? safeString(` ${html`integrity="${integrity}" crossorigin="anonymous"`}`)
+      : '';
+  }
+
+  /** Returns the URL used to load a resource, relative to the page. */
+  getResourceUrl(resource: Resource) {
+    return this.getUrl(this.getHrefFromResource(resource), {relative: true});
+  }
+
+  /**
+   * Adds a hint for a partial's resource to the <head>. Hints are only added if
+   * `resourceHints.preload` is enabled, or if the partial's script is moved to
+   * the <head>.
+   */
+  addResourceHint(hint: ResourceHint) {
+    if (hint.element || this.options.resourceHints?.preload !== false) {
+      this.resourceHints.push(hint);
+    }
+  }
+
+  /**
+   * Builds the `<link rel="preload">` and `<link rel="modulepreload">`
+   * elements for the partials' resources, and the partials' `<script>`
+   * elements if they were moved to the <head>.
+   */
+  buildResourceHintElements() {
+    return this.resourceHints
+      .map(hint => {
+        if (hint.element) {
+          return hint.element;
+        }
+        const integrity = this.buildIntegrityAttributes(hint.integrity);
+        return hint.module
+          ? html`<link rel="modulepreload" href="${hint.url}"${integrity}>`
+          : html`<link rel="preload" href="${hint.url}" as="${hint.as}"${integrity}>`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Builds a `<style>` element containing the contents of a stylesheet.
+   * @param file The stylesheet to inline.
+   * @returns The `<style>` element.
+   */
+  buildInlineStyleElement(file: StaticFile) {
+    const url = this.getResourceUrl(file);
+    // Resource has already been loaded, don't build again.
+    if (this.resourceUrls.includes(url)) {
+      return '';
+    }
+    this.resourceUrls.push(url);
+    // Prevent the stylesheet from closing the `<style>` element early.
+    const css = this.rewriteCssUrls(this.pod.readFile(file.podPath), file)
+      .trim()
+      .replace(/<\/style/gi, '<\\/style');
+    return html`<style${this.buildNonceAttribute()}>${safeString(css)}</style>`;
+  }
+
+  /**
+   * Rewrites the relative `url()` references of a stylesheet, e.g. fonts and
+   * background images, so they still resolve once the stylesheet is inlined
+   * into the page. References are resolved against the stylesheet's URL, then
+   * made relative to the page. Absolute, root-relative, `data:` and fragment
+   * references are left as-is.
+   * @param css The contents of the stylesheet.
+   * @param file The stylesheet.
+   * @returns The contents, with relative references rewritten.
+   */
+  rewriteCssUrls(css: string, file: StaticFile) {
+    const stylesheetPath = file.url?.path;
+    if (!stylesheetPath) {
+      return css;
+    }
+    return css.replace(
+      /url\(\s*(['"]?)([^'")]+)\1\s*\)/gi,
+      (match, quote, reference) => {
+        if (/^([a-z][a-z\d+.-]*:|\/|#)/i.test(reference)) {
+          return match;
+        }
+        const resolved = new URL(reference, `http://localhost${stylesheetPath}`);
+        const url = this.getUrl(
+          `${resolved.pathname}${resolved.search}${resolved.hash}`,
+          {relative: true}
+        );
+        return `url(${quote}${url}${quote})`;
+      }
+    );
+  }
+
   /**
    * Builds a `<link>` element used for styles.
    * @param resource The style resource to load.
    * @param async Whether the style should be loaded asynchronously.
+   * @param noscript Whether to add a `<noscript>` fallback for asynchronously
+   * loaded styles, for browsers with JavaScript disabled.
    * @returns The `<link>` element.
    */
-  buildStyleLinkElement(resource: Resource, async = true) {
+  buildStyleLinkElement(resource: Resource, async = true, noscript = false) {
     const href = this.getHrefFromResource(resource);
     const url = this.getUrl(href, {relative: true});
+    async = this.getResourceLoader(resource)?.async ?? async;
     // Resource has already been loaded, don't build again.
     if (this.resourceUrls.includes(url)) {
       return '';
@@ -797,13 +2094,20 @@ export class PageBuilder {
       <link
         href="${url}"
         rel="stylesheet"
+        ${this.buildResourceAttributes(resource)}
+        ${this.buildNonceAttribute()}
         ${async
           ? html`
               rel="preload" as="style"
-              onload="this.onload=null;this.rel='stylesheet'"
+              ${this.nonce
+                ? html`data-async-style`
+                : html`onload="this.onload=null;this.rel='stylesheet'"`}
             `
           : ''}
       >
+      ${async && noscript
+        ? html`<noscript><link href="${url}" rel="stylesheet"${this.buildResourceAttributes(resource)}></noscript>`
+        : ''}
     `;
   }
 }
@@ -0,0 +1,86 @@
+import {Locale, Pod, interpolate} from '@amagaki/amagaki';
+
+type Partial = any;
+
+/** The default path formats for shared partial content. */
+export const DEFAULT_PARTIAL_CONTENT_PATHS = [
+  '/content/partials/${partial.partial}.yaml',
+];
+
+export interface PartialPresetOptions {
+  /** The locale used to load the preset's content. */
+  locale: Locale;
+
+  /**
+   * The path formats for shared partial content, as in `partialPaths.content`.
+   * Default: `/content/partials/${partial.partial}.yaml`
+   */
+  pathFormats?: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Merges a partial's fields on top of its preset's. Objects are merged deeply,
+ * so a page may override a single nested field, e.g. `image: {alt: ...}` keeps
+ * the preset's `image.url`. Any other value, including a list, replaces the
+ * preset's value.
+ */
+export const mergePresetFields = (
+  preset: Record<string, any>,
+  overrides: Record<string, any>
+) => {
+  const result: Record<string, any> = {...preset};
+  for (const [key, value] of Object.entries(overrides)) {
+    result[key] =
+      isPlainObject(result[key]) && isPlainObject(value)
+        ? mergePresetFields(result[key], value)
+        : value;
+  }
+  return result;
+};
+
+/**
+ * Resolves a partial that references a shared preset, e.g. `{preset:
+ * promo-banner}`, by loading the preset's content from the content path
+ * formats (e.g. `/content/partials/promo-banner.yaml`). The partial's own
+ * fields are merged on top of the preset's (see `mergePresetFields`). Partials
+ * without a preset are returned as-is.
+ */
+export const resolvePartialPreset = (
+  pod: Pod,
+  partial: Partial,
+  options: PartialPresetOptions
+) => {
+  if (!partial?.preset) {
+    return partial;
+  }
+  const pathFormats = options.pathFormats ?? DEFAULT_PARTIAL_CONTENT_PATHS;
+  const podPaths = pathFormats.map(pathFormat =>
+    interpolate(pod, pathFormat, {
+      partial: {partial: partial.preset},
+    })
+  );
+  const contentPodPath = podPaths.find(podPath => pod.fileExists(podPath));
+  if (!contentPodPath) {
+    throw new Error(
+      `Preset not found: ${partial.preset}. Tried: ${podPaths.join(', ')}`
+    );
+  }
+  const resolved = mergePresetFields(
+    pod.doc(contentPodPath, options.locale).fields ?? {},
+    partial
+  );
+  if (!resolved.partial) {
+    throw new Error(
+      `Preset ${partial.preset} does not specify a partial: ${contentPodPath}`
+    );
+  }
+  return resolved;
+};
@@ -32,7 +32,7 @@ test('PatialPreview', async (t: ExecutionContext) => {
   <link href="./../static/css/main.css?fingerprint=d41d8cd98f00b204e9800998ecf8427e" rel="stylesheet" rel="preload" as="style" onload="this.onload=null;this.rel='stylesheet'">
   <script src="./../static/js/main.js?fingerprint=d41d8cd98f00b204e9800998ecf8427e" type="module"></script>
   <!-- Extra content inserted within the <head> element. -->
-  <script>
+  <script nonce="">
     (function(i, s, o, g, r, a, m) {
       i['GoogleAnalyticsObject'] = r;
       i[r] = i[r] || function() {
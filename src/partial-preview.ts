@@ -52,7 +52,11 @@ export class PartialPreviewRouteProvider extends RouteProvider {
   }
 
   get partialNames() {
-    return fs.readdirSync(this.pod.getAbsoluteFilePath(this.partialsBasePath)).map(filename => filename.split('.')[0]);
+    // Skip sibling schema files, e.g. `hero.schema.yaml`.
+    return fs
+      .readdirSync(this.pod.getAbsoluteFilePath(this.partialsBasePath))
+      .filter(filename => !filename.endsWith('.schema.yaml'))
+      .map(filename => filename.split('.')[0]);
   }
 
   async routes(): Promise<Route[]> {
@@ -0,0 +1,50 @@
+import {loadPartialSchema, validatePartial} from './partial-schema';
+
+import {ExecutionContext} from 'ava';
+import {Pod} from '@amagaki/amagaki';
+import test from 'ava';
+
+test('loadPartialSchema', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  const schema = loadPartialSchema(pod, '/views/partials/hero.njk');
+  t.deepEqual(schema?.title, {type: 'string', required: true});
+  t.is(loadPartialSchema(pod, '/views/partials/header.njk'), undefined);
+});
+
+test('validatePartial', async (t: ExecutionContext) => {
+  const schema = {
+    title: {type: 'string', required: true},
+    count: 'number',
+    image: {
+      type: 'object',
+      fields: {
+        url: {type: 'string', required: true},
+        alt: 'string',
+      },
+    },
+    items: {type: 'array', items: {type: 'object', fields: {label: 'string'}}},
+  } as const;
+  t.deepEqual(
+    validatePartial({partial: 'hero', id: 'hero', title: 'Hello'}, schema),
+    []
+  );
+  t.deepEqual(
+    validatePartial(
+      {
+        partial: 'hero',
+        titel: 'Hello',
+        count: '1',
+        image: {alt: 'Alt text'},
+        items: [{label: 'One'}, {lable: 'Two'}],
+      },
+      schema
+    ),
+    [
+      'title: required field is missing',
+      'count: expected number, got string',
+      'image.url: required field is missing',
+      'items[1].lable: unknown field',
+      'titel: unknown field',
+    ]
+  );
+});
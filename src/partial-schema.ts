@@ -0,0 +1,147 @@
+import {Pod, splitFrontMatter} from '@amagaki/amagaki';
+
+import fsPath from 'path';
+
+type PartialFieldType = 'any' | 'array' | 'boolean' | 'number' | 'object' | 'string';
+
+/**
+ * Describes a field of a partial. Fields may also be described using only the
+ * type name, e.g. `title: string`.
+ */
+export interface PartialFieldSchema {
+  /** The field's type. Default: `any` */
+  type?: PartialFieldType;
+
+  /** Whether the field must be set. */
+  required?: boolean;
+
+  /**
+   * The fields of an `object` field. If set, fields missing from the schema are
+   * reported as unknown.
+   */
+  fields?: PartialSchema;
+
+  /** The schema of each item of an `array` field. */
+  items?: PartialFieldSchema | PartialFieldType;
+}
+
+/**
+ * Describes the fields of a partial. A schema is declared either under the
+ * `schema` key of the partial view's front matter, or in a sibling file named
+ * after the view, e.g. `/views/partials/hero.schema.yaml`.
+ *
+ * ```
+ * schema:
+ *   title:
+ *     type: string
+ *     required: true
+ *   image:
+ *     type: object
+ *     fields:
+ *       url: string
+ *       alt: string
+ * ```
+ */
+export type PartialSchema = Record<string, PartialFieldSchema | PartialFieldType>;
+
+/** Fields used by the page builder itself, which are valid for all partials. */
+const RESERVED_FIELDS = [
+  'critical',
+  'id',
+  'includeContext',
+  'loading',
+  'partial',
+  'preset',
+];
+
+/** Returns the schema path adjacent to a partial's view. */
+const getSchemaPodPath = (viewPodPath: string) => {
+  const ext = fsPath.extname(viewPodPath);
+  return `${viewPodPath.slice(0, viewPodPath.length - ext.length)}.schema.yaml`;
+};
+
+/**
+ * Loads the schema for a partial, given the pod path to the partial's view.
+ * Returns `undefined` if the partial does not declare a schema.
+ */
+export const loadPartialSchema = (
+  pod: Pod,
+  viewPodPath: string
+): PartialSchema | undefined => {
+  const schemaPodPath = getSchemaPodPath(viewPodPath);
+  if (pod.fileExists(schemaPodPath)) {
+    return pod.readYaml(schemaPodPath) ?? undefined;
+  }
+  const {frontMatter} = splitFrontMatter(pod.readFile(viewPodPath));
+  const data = frontMatter ? pod.readYamlString(frontMatter) : undefined;
+  return data?.schema;
+};
+
+const getType = (value: any) => {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  // Translation strings (i.e. `!pod.string`) are rendered as strings.
+  if (value?.constructor?.name === 'TranslationString') {
+    return 'string';
+  }
+  return typeof value;
+};
+
+const validateField = (
+  path: string,
+  value: any,
+  schema: PartialFieldSchema | PartialFieldType
+): string[] => {
+  const fieldSchema = typeof schema === 'string' ? {type: schema} : schema;
+  if (value === undefined || value === null) {
+    return fieldSchema.required ? [`${path}: required field is missing`] : [];
+  }
+  const type = fieldSchema.type ?? 'any';
+  const actualType = getType(value);
+  if (type !== 'any' && type !== actualType) {
+    return [`${path}: expected ${type}, got ${actualType}`];
+  }
+  if (type === 'object' && fieldSchema.fields) {
+    return validateFields(`${path}.`, value, fieldSchema.fields);
+  }
+  if (type === 'array' && fieldSchema.items) {
+    const itemSchema = fieldSchema.items;
+    return (value as any[]).reduce(
+      (violations: string[], item, i) =>
+        violations.concat(validateField(`${path}[${i}]`, item, itemSchema)),
+      []
+    );
+  }
+  return [];
+};
+
+const validateFields = (
+  prefix: string,
+  data: Record<string, any>,
+  schema: PartialSchema,
+  reservedFields: string[] = []
+) => {
+  const violations: string[] = [];
+  for (const [key, fieldSchema] of Object.entries(schema)) {
+    violations.push(...validateField(`${prefix}${key}`, data[key], fieldSchema));
+  }
+  for (const key of Object.keys(data)) {
+    if (!(key in schema) && !reservedFields.includes(key)) {
+      violations.push(`${prefix}${key}: unknown field`);
+    }
+  }
+  return violations;
+};
+
+/**
+ * Validates a partial's content against its schema. Returns a list of
+ * violations, e.g. `titel: unknown field`, or an empty list if the content is
+ * valid.
+ */
+export const validatePartial = (
+  partial: Record<string, any>,
+  schema: PartialSchema
+) => {
+  return validateFields('', partial, schema, RESERVED_FIELDS);
+};
@@ -1,6 +1,8 @@
 import {Pod, Route} from '@amagaki/amagaki';
+import {SitemapPlugin, getNewsLanguage} from './sitemap';
 
 import {ExecutionContext} from 'ava';
+import {execFileSync} from 'child_process';
 import test from 'ava';
 
 test('SitemapPlugin: sitemap.xml', async (t: ExecutionContext) => {
@@ -8,24 +10,137 @@ test('SitemapPlugin: sitemap.xml', async (t: ExecutionContext) => {
   await pod.router.warmup();
   const sitemapRoute = await pod.router.resolve('/foo/sitemap.xml') as Route;
   const sitemapContent = await sitemapRoute.build();
+  // The lastmod of `foo.yaml` falls back to the file's git or mtime date.
+  t.regex(sitemapContent, /<lastmod>\d{4}-\d{2}-\d{2}T[^<]+<\/lastmod>/);
   const sitemapExpected = 
 `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
   <url>
     <loc>http://localhost/pages/foo/</loc>
+    <lastmod>LASTMOD</lastmod>
+    <changefreq>weekly</changefreq>
     <xhtml:link href="http://localhost/pages/foo/" hreflang="x-default" rel="alternate" />
     <xhtml:link href="http://localhost/pages/foo/" hreflang="en" rel="alternate" />
     <xhtml:link href="http://localhost/ja/pages/foo/" hreflang="ja" rel="alternate" />
   </url>
   <url>
     <loc>http://localhost/pages/</loc>
+    <lastmod>2021-06-01T00:00:00.000Z</lastmod>
+    <changefreq>weekly</changefreq>
+    <priority>0.8</priority>
     <xhtml:link href="http://localhost/pages/" hreflang="x-default" rel="alternate" />
     <xhtml:link href="http://localhost/pages/" hreflang="en" rel="alternate" />
     <xhtml:link href="http://localhost/ja/pages/" hreflang="ja" rel="alternate" />
   </url>
+  <url>
+    <loc>http://localhost/press/archived/</loc>
+    <lastmod>2021-01-01T09:00:00.000Z</lastmod>
+    <xhtml:link href="http://localhost/press/archived/" hreflang="x-default" rel="alternate" />
+    <xhtml:link href="http://localhost/press/archived/" hreflang="en" rel="alternate" />
+    <xhtml:link href="http://localhost/ja/press/archived/" hreflang="ja" rel="alternate" />
+  </url>
+  <url>
+    <loc>http://localhost/press/launch/</loc>
+    <lastmod>2021-06-01T09:00:00.000Z</lastmod>
+    <xhtml:link href="http://localhost/press/launch/" hreflang="x-default" rel="alternate" />
+    <xhtml:link href="http://localhost/press/launch/" hreflang="en" rel="alternate" />
+    <xhtml:link href="http://localhost/ja/press/launch/" hreflang="ja" rel="alternate" />
+  </url>
 </urlset>
 `.trim();
-  t.deepEqual(sitemapContent, sitemapExpected);
+  t.deepEqual(
+    sitemapContent.replace(
+      /<lastmod>[^<]+<\/lastmod>(\s*<changefreq>)/,
+      '<lastmod>LASTMOD</lastmod>$1'
+    ),
+    sitemapExpected
+  );
+  t.false(sitemapContent.includes('/pages/draft/'));
+  t.false(sitemapContent.includes('/pages/hidden/'));
+});
+
+test('SitemapPlugin: lastmod', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  const plugin = new SitemapPlugin(pod.router, {});
+  const gitDate = execFileSync(
+    'git',
+    ['log', '-1', '--format=%cI', '--', 'content/pages/foo.yaml'],
+    {cwd: pod.root}
+  )
+    .toString()
+    .trim();
+  t.is(await plugin.getLastModified(pod.doc('/content/pages/foo.yaml')), gitDate);
+  t.is(
+    await plugin.getLastModified(
+      pod.doc('/content/pages/foo.yaml', pod.locale('ja'))
+    ),
+    gitDate
+  );
+  t.is(
+    await plugin.getLastModified(pod.doc('/content/pages/index.yaml')),
+    '2021-06-01T00:00:00.000Z'
+  );
+});
+
+test('SitemapPlugin: sitemap_index.xml', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const indexRoute = await pod.router.resolve('/sitemap_index.xml') as Route;
+  const indexContent = await indexRoute.build();
+  const indexExpected =
+`<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap>
+    <loc>http://localhost/foo/sitemap.xml</loc>
+  </sitemap>
+</sitemapindex>
+`.trim();
+  t.deepEqual(indexContent, indexExpected);
+});
+
+test('SitemapPlugin: split sitemaps', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const plugin = new SitemapPlugin(pod.router, {maxUrlsPerSitemap: 1});
+  const routes = await plugin.routes();
+  t.deepEqual(
+    routes.map((route: Route) => route.urlPath),
+    [
+      '/robots.txt',
+      '/sitemap_index.xml',
+      '/sitemap-1.xml',
+      '/sitemap-2.xml',
+      '/sitemap-3.xml',
+      '/sitemap-4.xml',
+    ]
+  );
+  const indexContent = await routes[1].build();
+  t.true(indexContent.includes('<loc>http://localhost/sitemap-1.xml</loc>'));
+  t.true(indexContent.includes('<loc>http://localhost/sitemap-2.xml</loc>'));
+  const sitemapContent = await routes[2].build();
+  t.true(sitemapContent.includes('<loc>http://localhost/pages/foo/</loc>'));
+  t.false(sitemapContent.includes('<loc>http://localhost/pages/</loc>'));
+
+  // Sitemaps are also split by size, measured as written.
+  const contents: string[] = await Promise.all(
+    routes.slice(2).map((route: Route) => route.build())
+  );
+  const maxSitemapBytes = Math.max(
+    ...contents.map((content: string) => Buffer.byteLength(content))
+  );
+  const bytesPlugin = new SitemapPlugin(pod.router, {maxSitemapBytes});
+  const bytesRoutes = await bytesPlugin.routes();
+  t.is(bytesRoutes.length, 6);
+  const bytesContents: string[] = await Promise.all(
+    bytesRoutes.slice(2).map((route: Route) => route.build())
+  );
+  t.deepEqual(bytesContents, contents);
+
+  // A single URL larger than the limit can't be split.
+  const tooSmallPlugin = new SitemapPlugin(pod.router, {maxSitemapBytes: 1});
+  await t.throwsAsync(tooSmallPlugin.routes(), {
+    message: /^The sitemap <url> element for http:\/\/localhost\/pages\/foo\/ is \d+ bytes, which doesn't fit within the limit of 1 bytes/,
+  });
 });
 
 test('SitemapPlugin: robots.txt', async (t: ExecutionContext) => {
@@ -33,6 +148,201 @@ test('SitemapPlugin: robots.txt', async (t: ExecutionContext) => {
   await pod.router.warmup();
   const robotsRoute = await pod.router.resolve('/bar/robots.txt') as Route;
   const robotsContent = await robotsRoute.build();
-  const robotsExpected = 'User-agent: *\nAllow: /';
+  const robotsExpected =
+    'User-agent: *\nAllow: /\n\nSitemap: http://localhost/sitemap_index.xml';
   t.deepEqual(robotsContent, robotsExpected);
 });
+
+test('SitemapPlugin: robots.txt staging', async (t: ExecutionContext) => {
+  const pod = new Pod('./example', {name: 'staging'});
+  await pod.router.warmup();
+  const robotsRoute = await pod.router.resolve('/bar/robots.txt') as Route;
+  const robotsContent = await robotsRoute.build();
+  const robotsExpected =
+    'User-agent: *\nDisallow: /\n\nSitemap: http://localhost/sitemap_index.xml';
+  t.deepEqual(robotsContent, robotsExpected);
+});
+
+test('SitemapPlugin: robots.txt rules', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  const plugin = new SitemapPlugin(pod.router, {
+    robotsTxt: {
+      rules: [
+        {allow: ['/'], disallow: ['/private/']},
+        {userAgent: ['BadBot', 'WorseBot'], disallow: ['/'], crawlDelay: 10},
+      ],
+      extra: ['Host: example.com'],
+    },
+  });
+  const [robotsRoute] = await plugin.routes();
+  const robotsContent = await robotsRoute.build();
+  const robotsExpected = `
+User-agent: *
+Allow: /
+Disallow: /private/
+
+User-agent: BadBot
+User-agent: WorseBot
+Disallow: /
+Crawl-delay: 10
+
+Host: example.com
+
+Sitemap: http://localhost/sitemap_index.xml
+`.trim();
+  t.deepEqual(robotsContent, robotsExpected);
+});
+
+test('SitemapPlugin: media', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const plugin = new SitemapPlugin(pod.router, {
+    media: {images: true, videos: true},
+  });
+  const routes = await plugin.routes();
+  const sitemapContent = await routes[2].build();
+  t.true(
+    sitemapContent.includes(
+      'xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"'
+    )
+  );
+  t.true(
+    sitemapContent.includes(
+      'xmlns:video="http://www.google.com/schemas/sitemap-video/1.1"'
+    )
+  );
+  t.true(
+    sitemapContent.includes(
+      '<image:loc>http://localhost/static/images/hero.jpg</image:loc>'
+    )
+  );
+  // Data URIs are not valid sitemap image locations.
+  t.false(sitemapContent.includes('data:image'));
+  t.true(
+    sitemapContent.includes(
+      '<video:content_loc>https://example.com/videos/hero.mp4</video:content_loc>'
+    )
+  );
+  t.true(sitemapContent.includes('<video:title>Hero video</video:title>'));
+
+  const imagesOnlyPlugin = new SitemapPlugin(pod.router, {
+    media: {
+      images: true,
+      matcher: (key, value) => (key === 'video' && value.url ? 'image' : undefined),
+    },
+  });
+  const imagesOnlyContent = await (await imagesOnlyPlugin.routes())[2].build();
+  t.true(
+    imagesOnlyContent.includes(
+      '<image:loc>https://example.com/videos/hero.mp4</image:loc>'
+    )
+  );
+  t.false(imagesOnlyContent.includes('hero.jpg'));
+  t.false(imagesOnlyContent.includes('<video:video>'));
+
+  // Videos without a thumbnail, title and description are left out.
+  const incompleteVideoPlugin = new SitemapPlugin(pod.router, {
+    media: {
+      videos: true,
+      matcher: (key, value) => (key === 'image' && value.url ? 'video' : undefined),
+    },
+  });
+  const incompleteVideoContent = await (await incompleteVideoPlugin.routes())[2].build();
+  t.false(incompleteVideoContent.includes('<video:video>'));
+});
+
+test('SitemapPlugin: media from partial presets', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  // A local override of a nested field keeps the preset's image URL.
+  pod.doc('/content/pages/index.yaml').fields.partials.push({
+    preset: 'promo-banner',
+    image: {alt: 'Overridden alt'},
+  });
+  const plugin = new SitemapPlugin(pod.router, {
+    media: {images: true},
+  });
+  const sitemapContent = await (await plugin.routes())[2].build();
+  t.true(
+    sitemapContent.includes(
+      '<image:loc>http://localhost/static/images/promo.jpg</image:loc>'
+    )
+  );
+});
+
+test('SitemapPlugin: localized URLs', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const plugin = new SitemapPlugin(pod.router, {includeLocalizedUrls: true});
+  const routes = await plugin.routes();
+  const sitemapContent = await routes[2].build();
+  t.true(sitemapContent.includes('<loc>http://localhost/pages/</loc>'));
+  t.true(sitemapContent.includes('<loc>http://localhost/ja/pages/</loc>'));
+  t.is(
+    sitemapContent.split(
+      '<xhtml:link href="http://localhost/pages/" hreflang="x-default" rel="alternate" />'
+    ).length - 1,
+    2
+  );
+  t.is(
+    sitemapContent.split(
+      '<xhtml:link href="http://localhost/ja/pages/" hreflang="ja" rel="alternate" />'
+    ).length - 1,
+    2
+  );
+});
+
+test('SitemapPlugin: news-sitemap.xml', async (t: ExecutionContext) => {
+  const pod = new Pod('./example');
+  await pod.router.warmup();
+  const plugin = new SitemapPlugin(pod.router, {
+    news: {
+      collections: ['/content/press/'],
+      publicationName: 'Example News',
+    },
+  });
+  const routes = await plugin.routes();
+  const indexContent = await routes[1].build();
+  t.true(
+    indexContent.includes('<loc>http://localhost/news-sitemap.xml</loc>')
+  );
+  const newsRoute = routes.find(
+    (route: Route) => route.urlPath === '/news-sitemap.xml'
+  );
+  const now = Date.now;
+  Date.now = () => new Date('2021-06-02T08:00:00Z').getTime();
+  let newsContent;
+  try {
+    newsContent = await newsRoute.build();
+  } finally {
+    Date.now = now;
+  }
+  const newsExpected =
+`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+  <url>
+    <loc>http://localhost/press/launch/</loc>
+    <news:news>
+      <news:publication>
+        <news:name>Example News</news:name>
+        <news:language>en</news:language>
+      </news:publication>
+      <news:publication_date>2021-06-01T09:00:00.000Z</news:publication_date>
+      <news:title>Example launches today</news:title>
+    </news:news>
+  </url>
+</urlset>
+`.trim();
+  t.deepEqual(newsContent, newsExpected);
+});
+
+test('getNewsLanguage', (t: ExecutionContext) => {
+  t.is(getNewsLanguage('en'), 'en');
+  t.is(getNewsLanguage('en_US'), 'en');
+  t.is(getNewsLanguage('pt_BR'), 'pt');
+  t.is(getNewsLanguage('zh_CN'), 'zh-cn');
+  t.is(getNewsLanguage('zh_Hans'), 'zh-cn');
+  t.is(getNewsLanguage('zh_TW'), 'zh-tw');
+  t.is(getNewsLanguage('zh_Hant_HK'), 'zh-tw');
+  t.is(getNewsLanguage('ALL'), undefined);
+});
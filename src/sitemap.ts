@@ -1,19 +1,239 @@
 import {
+  Document,
   DocumentRoute,
+  Locale,
   Pod,
   Route,
   RouteProvider,
   Router,
+  Url,
 } from '@amagaki/amagaki';
+import {execFile} from 'child_process';
+import fs from 'fs';
+import fsPath from 'path';
+import {getHreflang} from './utils';
 import jsBeautify from 'js-beautify';
+import {promisify} from 'util';
+import {resolvePartialPreset} from './partial-presets';
+
+/** A group of `robots.txt` rules that apply to one or more user agents. */
+export interface RobotsTxtRuleGroup {
+  /** The user agent(s) the group applies to. Default: `*`. */
+  userAgent?: string | string[];
+
+  /** Paths the user agent(s) may crawl. */
+  allow?: string[];
+
+  /** Paths the user agent(s) may not crawl. */
+  disallow?: string[];
+
+  /** The number of seconds to wait between requests. */
+  crawlDelay?: number;
+}
+
+export interface RobotsTxtOptions {
+  /**
+   * The rule groups to output. Default: allow all user agents to crawl
+   * everything, or disallow everything in the `staging` environment, so
+   * preview hosts are never indexed.
+   */
+  rules?: RobotsTxtRuleGroup[];
+
+  /** Extra lines appended after the rule groups, e.g. `Host: example.com`. */
+  extra?: string[];
+}
+
+/**
+ * Sitemap metadata, specified by the `$sitemap` field of a document or its
+ * `_collection.yaml`. Document values override collection values.
+ */
+export interface SitemapFields {
+  /** Whether to leave the document out of the sitemap. */
+  exclude?: boolean;
+
+  /** The priority of the URL relative to other URLs, from `0.0` to `1.0`. */
+  priority?: number;
+
+  /** How frequently the page is likely to change, e.g. `weekly`. */
+  changefreq?:
+    | 'always'
+    | 'hourly'
+    | 'daily'
+    | 'weekly'
+    | 'monthly'
+    | 'yearly'
+    | 'never';
+
+  /**
+   * The date the page was last modified. Default: the date of the last git
+   * commit touching the document's file, or the file's modification time.
+   */
+  lastmod?: string | Date;
+}
+
+/** An image referenced by a document's partials. */
+export interface SitemapImage {
+  url: string;
+}
+
+/**
+ * A video referenced by a document's partials. Videos without a thumbnail,
+ * title or description are left out, as sitemaps require them.
+ */
+export interface SitemapVideo {
+  url: string;
+  thumbnailUrl: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Decides whether a partial field holds media. Receives the field's key and
+ * value and returns the media type, or `undefined` if the field isn't media.
+ */
+export type SitemapMediaFieldMatcher = (
+  key: string,
+  value: any
+) => 'image' | 'video' | undefined;
+
+export interface SitemapMediaOptions {
+  /** Whether to emit `<image:image>` entries for images in partials. */
+  images?: boolean;
+
+  /** Whether to emit `<video:video>` entries for videos in partials. */
+  videos?: boolean;
+
+  /**
+   * Decides which partial fields count as media. Default: objects with a `url`
+   * whose key ends in `image` are images, and those whose key ends in `video`
+   * are videos.
+   */
+  matcher?: SitemapMediaFieldMatcher;
+}
+
+export interface NewsSitemapOptions {
+  /** The URL path for the news sitemap. Default: `/news-sitemap.xml` */
+  path?: string;
+
+  /**
+   * The pod paths of the collections containing news articles. Example:
+   * `['/content/press/']`
+   */
+  collections: string[];
+
+  /** The name of the publication, used for `<news:name>`. */
+  publicationName: string;
+
+  /**
+   * The document field holding the article's publication date. Documents
+   * without a publication date are left out. Default: `date`
+   */
+  dateField?: string;
+
+  /**
+   * The maximum age of an article, in hours. Older articles are left out.
+   * Default: 48.
+   */
+  maxAgeHours?: number;
+}
 
 export interface SitemapPluginOptions {
   sitemapPath?: string;
+
+  /** The URL path for the sitemap index. Default: `/sitemap_index.xml` */
+  sitemapIndexPath?: string;
+
+  /**
+   * The maximum number of URLs in a single sitemap. When exceeded, the sitemap
+   * is split into numbered sitemaps, e.g. `/sitemap-1.xml`. Default: 50,000.
+   */
+  maxUrlsPerSitemap?: number;
+
+  /**
+   * The maximum size of a single (uncompressed) sitemap in bytes. When
+   * exceeded, the sitemap is split into numbered sitemaps. Default: 50MB.
+   */
+  maxSitemapBytes?: number;
+
+  /**
+   * Whether to emit a `<url>` element for every localized URL, rather than
+   * only for the default locale's URL. Each element lists the same set of
+   * alternates, as recommended by Google. Default: false.
+   */
+  includeLocalizedUrls?: boolean;
+
+  /**
+   * Options for emitting image and video sitemap extensions, derived from the
+   * content of each document's partials.
+   */
+  media?: SitemapMediaOptions;
+
+  /**
+   * Options for generating a Google News sitemap for time-sensitive
+   * collections. If unset, no news sitemap is generated.
+   */
+  news?: NewsSitemapOptions;
+
+  /**
+   * The path formats for shared partial content, used to resolve partial
+   * presets when collecting media. Default:
+   * `/content/partials/${partial.partial}.yaml`
+   */
+  partialContentPaths?: string[];
+
   robotsTxtPath?: string;
+  robotsTxt?: RobotsTxtOptions;
 }
 
+/** Limits defined by the sitemaps protocol: https://www.sitemaps.org/protocol.html */
+const MAX_URLS_PER_SITEMAP = 50000;
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+const SITEMAP_FOOTER = '</urlset>';
+
+/** Google News only accepts up to 1,000 URLs per news sitemap. */
+const MAX_NEWS_URLS = 1000;
+
+/**
+ * Returns the language code of a locale for `<news:language>`. Google News
+ * expects an ISO 639 code, e.g. `en` for `en_US`, except for Chinese, which
+ * is either `zh-cn` (Simplified) or `zh-tw` (Traditional). Returns `undefined`
+ * for locales without a language, such as `ALL`.
+ */
+export const getNewsLanguage = (locale: Locale | string) => {
+  const hreflang = getHreflang(locale)?.toLowerCase();
+  if (!hreflang) {
+    return undefined;
+  }
+  const [language, ...subtags] = hreflang.split('-');
+  if (language !== 'zh') {
+    return language;
+  }
+  return subtags.some(subtag => ['hant', 'tw', 'hk', 'mo'].includes(subtag))
+    ? 'zh-tw'
+    : 'zh-cn';
+};
+
+const defaultMediaFieldMatcher: SitemapMediaFieldMatcher = (key, value) => {
+  if (!value?.url) {
+    return undefined;
+  }
+  if (/image$/i.test(key)) {
+    return 'image';
+  }
+  if (/video$/i.test(key)) {
+    return 'video';
+  }
+  return undefined;
+};
+
 export class SitemapPlugin extends RouteProvider {
   options: SitemapPluginOptions;
+  /**
+   * The last modified dates of the pod's files, by absolute path. Loaded once
+   * each time routes are assembled. See `getLastModified`.
+   */
+  private lastModifiedDates?: Promise<Map<string, string>>;
 
   constructor(router: Router, options: SitemapPluginOptions) {
     super(router);
@@ -27,8 +247,379 @@ export class SitemapPlugin extends RouteProvider {
     return provider;
   }
 
+  get sitemapHeader() {
+    const namespaces = [
+      'xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"',
+      'xmlns:xhtml="http://www.w3.org/1999/xhtml"',
+    ];
+    if (this.options.media?.images) {
+      namespaces.push(
+        'xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"'
+      );
+    }
+    if (this.options.media?.videos) {
+      namespaces.push(
+        'xmlns:video="http://www.google.com/schemas/sitemap-video/1.1"'
+      );
+    }
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset ${namespaces.join(' ')}>`;
+  }
+
+  get sitemapIndexPath() {
+    return this.options.sitemapIndexPath ?? '/sitemap_index.xml';
+  }
+
+  get sitemapPath() {
+    return this.options.sitemapPath ?? '/sitemap.xml';
+  }
+
+  get urlTemplateSource() {
+    return `
+      <url>
+          {% set doc = route.doc %}
+          <loc>{{doc.url}}</loc>
+          {% if sitemap.lastmod %}
+          <lastmod>{{sitemap.lastmod}}</lastmod>
+          {% endif %}
+          {% if sitemap.changefreq %}
+          <changefreq>{{sitemap.changefreq}}</changefreq>
+          {% endif %}
+          {% if sitemap.priority is defined %}
+          <priority>{{sitemap.priority}}</priority>
+          {% endif %}
+          <xhtml:link href="{{pod.doc(doc.podPath, doc.defaultLocale).url}}" hreflang="x-default" rel="alternate" />
+          {% for locale in doc.locales %}
+          {% set code = hreflang(locale) %}
+          {% if code %}
+          <xhtml:link href="{{pod.doc(doc.podPath, locale).url}}" hreflang="{{code}}" rel="alternate" />
+          {% endif %}
+          {% endfor %}
+          {% for image in media.images %}
+          <image:image>
+              <image:loc>{{image.url}}</image:loc>
+          </image:image>
+          {% endfor %}
+          {% for video in media.videos %}
+          <video:video>
+              <video:thumbnail_loc>{{video.thumbnailUrl}}</video:thumbnail_loc>
+              <video:title>{{video.title}}</video:title>
+              <video:description>{{video.description}}</video:description>
+              <video:content_loc>{{video.url}}</video:content_loc>
+          </video:video>
+          {% endfor %}
+      </url>`;
+  }
+
+  /**
+   * Renders the `<url>` element for a document route, formatted and indented
+   * as it's written within the `<urlset>` element, so that its size is known
+   * before the sitemap is built.
+   */
+  async buildUrlElement(route: DocumentRoute) {
+    const njk = this.pod.engines.getEngineByExtension('.njk');
+    const text = (
+      await njk.renderFromString(this.urlTemplateSource, {
+        route: route,
+        pod: this.pod,
+        hreflang: getHreflang,
+        sitemap: {
+          ...this.getSitemapFields(route.doc),
+          lastmod: await this.getLastModified(route.doc),
+        },
+        media: await this.getMedia(route.doc),
+      })
+    ).replace(/^\s*[\r\n]/gm, '');
+    return jsBeautify
+      .html(text.trim(), {indent_size: 2})
+      .split('\n')
+      .map(line => `  ${line}`)
+      .join('\n');
+  }
+
+  /**
+   * Returns the document routes to include in the sitemap. The routes are
+   * obtained from the document and collection providers directly, as the
+   * router's routes are still being assembled when `routes()` is called.
+   */
+  async getDocumentRoutes() {
+    const routes: DocumentRoute[] = [];
+    for (const type of ['doc', 'collection']) {
+      for (const provider of this.router.providers[type] ?? []) {
+        routes.push(...((await provider.routes()) as DocumentRoute[]));
+      }
+    }
+    return routes.filter(
+      route =>
+        (this.options.includeLocalizedUrls ||
+          route.locale === this.pod.defaultLocale) &&
+        !route.urlPath.includes('/404/') &&
+        !this.isExcluded(route.doc)
+    );
+  }
+
+  /**
+   * Returns the last modified date of a document, in W3C Datetime format. Uses
+   * the `$sitemap.lastmod` field if set, otherwise falls back to the date of
+   * the last git commit for the document's file, and finally to the file's
+   * modification time.
+   */
+  async getLastModified(doc: Document) {
+    const lastmod = this.getSitemapFields(doc).lastmod;
+    if (lastmod) {
+      return lastmod instanceof Date ? lastmod.toISOString() : lastmod;
+    }
+    if (!this.lastModifiedDates) {
+      this.lastModifiedDates = this.loadGitDates();
+    }
+    const dates = await this.lastModifiedDates;
+    const absolutePath = this.pod.getAbsoluteFilePath(doc.podPath);
+    if (!dates.has(absolutePath)) {
+      const stat = await fs.promises.stat(absolutePath);
+      dates.set(absolutePath, stat.mtime.toISOString());
+    }
+    return dates.get(absolutePath) as string;
+  }
+
+  /**
+   * Returns the date of the last git commit for each file in the pod, by
+   * absolute path, using a single `git log` over the pod's history.
+   */
+  async loadGitDates() {
+    const dates = new Map<string, string>();
+    let output = '';
+    try {
+      const result = await promisify(execFile)(
+        'git',
+        [
+          '-c',
+          'core.quotePath=false',
+          'log',
+          '--relative',
+          '--name-only',
+          '--format=%cI',
+          '--',
+          '.',
+        ],
+        {cwd: this.pod.root, maxBuffer: 256 * 1024 * 1024}
+      );
+      output = result.stdout;
+    } catch (err) {
+      // Not a git repository, or git is unavailable. Use mtimes instead.
+      return dates;
+    }
+    // Commits are listed newest first, each as its date followed by the
+    // paths of the files it touched.
+    let date = '';
+    for (const line of output.split('\n')) {
+      if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(line)) {
+        date = line;
+      } else if (line && date) {
+        const absolutePath = fsPath.join(this.pod.root, line);
+        if (!dates.has(absolutePath)) {
+          dates.set(absolutePath, date);
+        }
+      }
+    }
+    return dates;
+  }
+
+  /**
+   * Returns the images and videos referenced by a document's partials, as
+   * decided by the media field matcher. Only media types enabled in the
+   * `media` options are collected.
+   */
+  async getMedia(doc: Document) {
+    const images: SitemapImage[] = [];
+    const videos: SitemapVideo[] = [];
+    const options = this.options.media ?? {};
+    if (!options.images && !options.videos) {
+      return {images, videos};
+    }
+    // Resolve async YAML types in the partials. `resolveFields` is private in
+    // Amagaki's typings, but it's the same resolution `Document.render()` runs
+    // before rendering, and there's no public equivalent (the partial preview
+    // relies on it too).
+    // @ts-ignore
+    await doc.resolveFields();
+    const partials = (
+      doc.fields?.partials ??
+      doc.collection?.fields?.partials ??
+      []
+    ).map((partial: any) => {
+      try {
+        return resolvePartialPreset(this.pod, partial, {
+          locale: doc.locale,
+          pathFormats: this.options.partialContentPaths,
+        });
+      } catch (err) {
+        // Missing presets are reported when the page itself is built.
+        return partial;
+      }
+    });
+    const matcher = options.matcher ?? defaultMediaFieldMatcher;
+    const seen = new Set<string>();
+    const walk = (key: string, value: any) => {
+      if (Array.isArray(value)) {
+        value.forEach(item => walk(key, item));
+        return;
+      }
+      if (!value || typeof value !== 'object') {
+        return;
+      }
+      const type = matcher(key, value);
+      if (!type) {
+        for (const [childKey, childValue] of Object.entries(value)) {
+          walk(childKey, childValue);
+        }
+        return;
+      }
+      const url = this.getMediaUrl(value.url);
+      if (!url || seen.has(url)) {
+        return;
+      }
+      seen.add(url);
+      if (type === 'image' && options.images) {
+        images.push({url});
+      } else if (type === 'video' && options.videos) {
+        const video = {
+          url,
+          thumbnailUrl: this.getMediaUrl(
+            value.thumbnail?.url ?? value.thumbnail
+          ),
+          title: value.title,
+          description: value.description,
+        };
+        const missingFields = [
+          ...(video.thumbnailUrl ? [] : ['thumbnail']),
+          ...(video.title ? [] : ['title']),
+          ...(video.description ? [] : ['description']),
+        ];
+        if (missingFields.length) {
+          console.warn(
+            `Video left out of sitemap, missing ${missingFields.join(', ')}: ${url} (in ${doc.podPath})`
+          );
+          return;
+        }
+        videos.push(video as SitemapVideo);
+      }
+    };
+    walk('partials', partials);
+    return {images, videos};
+  }
+
+  /**
+   * Returns an absolute URL for a media reference. Accepts `Url` objects,
+   * absolute URLs, and root-relative paths. Data URIs are not supported by
+   * sitemaps, so `undefined` is returned for them.
+   */
+  getMediaUrl(value: any) {
+    if (!value) {
+      return undefined;
+    }
+    const url = value.toString();
+    if (url.startsWith('data:')) {
+      return undefined;
+    }
+    if (url.startsWith('/') && !url.startsWith('//')) {
+      return new Url({path: url, env: this.pod.env}).toString();
+    }
+    return url;
+  }
+
+  /** Returns the URL path of a numbered sitemap, e.g. `/sitemap-1.xml`. */
+  getNumberedSitemapPath(num: number) {
+    const ext = fsPath.extname(this.sitemapPath);
+    return `${this.sitemapPath.slice(
+      0,
+      this.sitemapPath.length - ext.length
+    )}-${num}${ext}`;
+  }
+
+  /**
+   * Returns the sitemap fields for a document, merging the document's
+   * `$sitemap` field over its collection's `$sitemap` field.
+   */
+  getSitemapFields(doc: Document): SitemapFields {
+    return {
+      ...(doc.collection?.fields?.$sitemap ?? {}),
+      ...(doc.fields?.$sitemap ?? {}),
+    };
+  }
+
+  /**
+   * Returns whether a document should be left out of the sitemap, either
+   * because it sets `$sitemap.exclude` or because it sets `noIndex`.
+   */
+  isExcluded(doc: Document) {
+    const noIndex = doc.fields?.noIndex ?? doc.collection?.fields?.noIndex;
+    return Boolean(this.getSitemapFields(doc).exclude || noIndex);
+  }
+
   async routes():Promise<any> {
-    return [new RobotsTxtRoute(this), new SitemapRoute(this)];
+    this.lastModifiedDates = undefined;
+    const entries = await Promise.all(
+      (await this.getDocumentRoutes()).map(route =>
+        this.buildUrlElement(route)
+      )
+    );
+    const chunks = this.splitEntries(entries);
+    const sitemapRoutes = chunks.map(
+      (chunk, i) =>
+        new SitemapRoute(this, {
+          entries: chunk,
+          urlPath:
+            chunks.length === 1
+              ? this.sitemapPath
+              : this.getNumberedSitemapPath(i + 1),
+        })
+    );
+    const childRoutes: Route[] = [...sitemapRoutes];
+    if (this.options.news) {
+      childRoutes.push(new NewsSitemapRoute(this, this.options.news));
+    }
+    return [
+      new RobotsTxtRoute(this),
+      new SitemapIndexRoute(this, childRoutes),
+      ...childRoutes,
+    ];
+  }
+
+  /**
+   * Splits `<url>` elements into groups, such that no group exceeds the
+   * configured URL count or byte size limits. Sizes are measured as the
+   * elements are written, see `buildUrlElement`.
+   */
+  splitEntries(entries: string[]) {
+    const maxUrls = this.options.maxUrlsPerSitemap ?? MAX_URLS_PER_SITEMAP;
+    const maxBytes = this.options.maxSitemapBytes ?? MAX_SITEMAP_BYTES;
+    const baseBytes =
+      Buffer.byteLength(this.sitemapHeader) +
+      Buffer.byteLength(SITEMAP_FOOTER) +
+      1;
+    const chunks: string[][] = [[]];
+    let chunkBytes = baseBytes;
+    for (const entry of entries) {
+      const entryBytes = Buffer.byteLength(entry) + 1;
+      if (baseBytes + entryBytes > maxBytes) {
+        const loc = entry.match(/<loc>([^<]*)<\/loc>/)?.[1];
+        throw new Error(
+          `The sitemap <url> element for ${loc} is ${entryBytes} bytes, which doesn't fit within the limit of ${maxBytes} bytes.`
+        );
+      }
+      const chunk = chunks[chunks.length - 1];
+      if (
+        chunk.length &&
+        (chunk.length >= maxUrls || chunkBytes + entryBytes > maxBytes)
+      ) {
+        chunks.push([entry]);
+        chunkBytes = baseBytes + entryBytes;
+      } else {
+        chunk.push(entry);
+        chunkBytes += entryBytes;
+      }
+    }
+    return chunks;
   }
 }
 
@@ -44,53 +635,192 @@ class RobotsTxtRoute extends Route {
     return this.provider.options.robotsTxtPath ?? '/robots.txt';
   }
 
+  get rules(): RobotsTxtRuleGroup[] {
+    if (this.provider.options.robotsTxt?.rules) {
+      return this.provider.options.robotsTxt.rules;
+    }
+    return this.pod.env.name === 'staging'
+      ? [{userAgent: '*', disallow: ['/']}]
+      : [{userAgent: '*', allow: ['/']}];
+  }
+
+  buildRuleGroup(group: RobotsTxtRuleGroup) {
+    const userAgents = Array.isArray(group.userAgent)
+      ? group.userAgent
+      : [group.userAgent ?? '*'];
+    const lines = userAgents.map(userAgent => `User-agent: ${userAgent}`);
+    for (const path of group.allow ?? []) {
+      lines.push(`Allow: ${path}`);
+    }
+    for (const path of group.disallow ?? []) {
+      lines.push(`Disallow: ${path}`);
+    }
+    if (group.crawlDelay !== undefined) {
+      lines.push(`Crawl-delay: ${group.crawlDelay}`);
+    }
+    return lines.join('\n');
+  }
+
   async build() {
-    // TODO: Add Sitemap property, hook into document.
-    return 'User-agent: *\nAllow: /';
+    const sections = this.rules.map(group => this.buildRuleGroup(group));
+    if (this.provider.options.robotsTxt?.extra?.length) {
+      sections.push(this.provider.options.robotsTxt.extra.join('\n'));
+    }
+    const sitemapUrl = new Url({
+      path: this.provider.sitemapIndexPath,
+      env: this.pod.env,
+    });
+    sections.push(`Sitemap: ${sitemapUrl}`);
+    return sections.join('\n\n');
   }
 }
 
+interface SitemapRouteOptions {
+  /** The rendered `<url>` elements contained in the sitemap. */
+  entries: string[];
+  urlPath: string;
+}
+
 class SitemapRoute extends Route {
+  options: SitemapRouteOptions;
   provider: SitemapPlugin;
 
-  constructor(provider: SitemapPlugin) {
+  constructor(provider: SitemapPlugin, options: SitemapRouteOptions) {
     super(provider);
     this.provider = provider;
+    this.options = options;
   }
 
   get urlPath() {
-    return this.provider.options.sitemapPath ?? '/sitemap.xml';
+    return this.options.urlPath;
+  }
+
+  async build() {
+    return [
+      this.provider.sitemapHeader,
+      ...this.options.entries,
+      SITEMAP_FOOTER,
+    ].join('\n');
+  }
+}
+
+class SitemapIndexRoute extends Route {
+  provider: SitemapPlugin;
+  sitemapRoutes: Route[];
+
+  constructor(provider: SitemapPlugin, sitemapRoutes: Route[]) {
+    super(provider);
+    this.provider = provider;
+    this.sitemapRoutes = sitemapRoutes;
+  }
+
+  get urlPath() {
+    return this.provider.sitemapIndexPath;
+  }
+
+  get templateSource() {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+  <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      {% for route in sitemapRoutes %}
+      <sitemap>
+          <loc>{{route.url}}</loc>
+      </sitemap>
+      {% endfor %}
+  </sitemapindex>`;
+  }
+
+  async build() {
+    const njk = this.pod.engines.getEngineByExtension('.njk');
+    const text = (
+      await njk.renderFromString(this.templateSource, {
+        sitemapRoutes: this.sitemapRoutes,
+      })
+    ).replace(/^\s*[\r\n]/gm, '');
+    return jsBeautify.html(text, {indent_size: 2});
+  }
+}
+
+class NewsSitemapRoute extends Route {
+  options: NewsSitemapOptions;
+  provider: SitemapPlugin;
+
+  constructor(provider: SitemapPlugin, options: NewsSitemapOptions) {
+    super(provider);
+    this.provider = provider;
+    this.options = options;
+  }
+
+  get urlPath() {
+    return this.options.path ?? '/news-sitemap.xml';
   }
 
   get templateSource() {
     return `<?xml version="1.0" encoding="UTF-8"?>
-  <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
-      {% for route in routes %}
+  <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+      {% for article in articles %}
       <url>
-          {% set doc = route.doc %}
-          <loc>{{doc.url}}</loc>
-          <xhtml:link href="{{doc.url}}" hreflang="x-default" rel="alternate" />
-          {% for locale in doc.locales %}
-          {% set doc = pod.doc(doc.podPath, locale) %}
-          <xhtml:link href="{{doc.url}}" hreflang="{{doc.locale.id}}" rel="alternate" />
-          {% endfor %}
+          <loc>{{article.doc.url}}</loc>
+          <news:news>
+              <news:publication>
+                  <news:name>{{publicationName}}</news:name>
+                  <news:language>{{article.language}}</news:language>
+              </news:publication>
+              <news:publication_date>{{article.date.toISOString()}}</news:publication_date>
+              <news:title>{{article.doc.fields.title}}</news:title>
+          </news:news>
       </url>
       {% endfor %}
   </urlset>`;
   }
 
+  /**
+   * Returns the articles published within the configured maximum age, newest
+   * first.
+   */
+  getArticles() {
+    const dateField = this.options.dateField ?? 'date';
+    const maxAge = (this.options.maxAgeHours ?? 48) * 60 * 60 * 1000;
+    const now = Date.now();
+    const articles = [];
+    for (const podPath of this.options.collections) {
+      for (const doc of this.pod.collection(podPath)?.docs() ?? []) {
+        const value = doc.fields?.[dateField];
+        const date = value ? new Date(value) : undefined;
+        if (
+          !date ||
+          isNaN(date.getTime()) ||
+          date.getTime() > now ||
+          now - date.getTime() > maxAge ||
+          !doc.url ||
+          this.provider.isExcluded(doc)
+        ) {
+          continue;
+        }
+        const language = getNewsLanguage(doc.locale);
+        if (!language) {
+          console.warn(
+            `Article left out of news sitemap, its locale has no language: ${doc.podPath} (${doc.locale.id})`
+          );
+          continue;
+        }
+        articles.push({
+          date: date,
+          doc: doc,
+          language: language,
+        });
+      }
+    }
+    return articles
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, MAX_NEWS_URLS);
+  }
+
   async build() {
     const njk = this.pod.engines.getEngineByExtension('.njk');
-    const routes = (await this.pod.router.routes()).filter(
-      route =>
-        ['collection', 'doc'].includes(route.provider.type) &&
-        (route as DocumentRoute).locale === this.pod.defaultLocale &&
-        !route.urlPath.includes('/404/')
-    );
     const text = (
       await njk.renderFromString(this.templateSource, {
-        routes: routes,
-        pod: this.pod,
+        articles: this.getArticles(),
+        publicationName: this.options.publicationName,
       })
     ).replace(/^\s*[\r\n]/gm, '');
     return jsBeautify.html(text, {indent_size: 2});
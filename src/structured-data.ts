@@ -0,0 +1,78 @@
+/**
+ * Types for JSON-LD structured data, emitted as `<script
+ * type="application/ld+json">` elements in the `<head>`. See
+ * https://developers.google.com/search/docs/advanced/structured-data/intro-structured-data.
+ *
+ * Only the most commonly used properties are typed. Any other schema.org
+ * property may also be set.
+ */
+
+interface Thing {
+  '@context'?: string;
+  '@type': string;
+  [key: string]: any;
+}
+
+export interface OrganizationData extends Thing {
+  '@type': 'Organization';
+  name: string;
+  url?: string;
+  logo?: string;
+  sameAs?: string[];
+}
+
+export interface WebSiteData extends Thing {
+  '@type': 'WebSite';
+  name: string;
+  url: string;
+  potentialAction?: Thing;
+}
+
+export interface BreadcrumbListData extends Thing {
+  '@type': 'BreadcrumbList';
+  itemListElement: {
+    '@type': 'ListItem';
+    position: number;
+    name: string;
+    item?: string;
+  }[];
+}
+
+export interface ArticleData extends Thing {
+  '@type': 'Article' | 'BlogPosting' | 'NewsArticle';
+  headline: string;
+  image?: string | string[];
+  datePublished?: string;
+  dateModified?: string;
+  author?: Thing | Thing[];
+}
+
+export interface ProductData extends Thing {
+  '@type': 'Product';
+  name: string;
+  description?: string;
+  image?: string | string[];
+  sku?: string;
+  brand?: Thing;
+  offers?: Thing | Thing[];
+}
+
+export type StructuredData =
+  | OrganizationData
+  | WebSiteData
+  | BreadcrumbListData
+  | ArticleData
+  | ProductData
+  | Thing;
+
+/**
+ * Serializes structured data to JSON-LD, adding the schema.org `@context` if
+ * unset. `<` is escaped, so the result is safe to embed within a `<script>`
+ * element.
+ */
+export const serializeStructuredData = (data: StructuredData) => {
+  return JSON.stringify({'@context': 'https://schema.org', ...data}).replace(
+    /</g,
+    '\\u003c'
+  );
+};
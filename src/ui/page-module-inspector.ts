@@ -3,6 +3,10 @@ import {customElement, property} from 'lit/decorators.js';
 
 @customElement('page-module-inspector')
 export class PageBuilderInspector extends LitElement {
+  /** Schema violations found for the partial's content. */
+  @property({type: Array, attribute: 'violations'})
+  violations?: string[];
+
   private pageModule: HTMLElement | null = null;
 
   constructor() {
@@ -71,6 +75,13 @@ export class PageBuilderInspector extends LitElement {
         .help-box__label a:hover {
           text-decoration: underline;
         }
+        .help-box--invalid {
+          background: #d93025;
+        }
+        .help-box__violations {
+          margin: 8px 0 0;
+          padding-left: 16px;
+        }
       `,
     ];
   }
@@ -78,12 +89,21 @@ export class PageBuilderInspector extends LitElement {
   render() {
     return this.enabled
       ? html`
-        <div class="help-box">
+        <div class="help-box ${this.violations?.length ? 'help-box--invalid' : ''}">
           <div class="help-box__label">
             <a href="#${this.elementId}">
               ${this.position}. ${this.partial}
             </a>
+            ${this.violations?.length
+              ? html`(${this.violations.length} invalid ${this.violations.length === 1 ? 'field' : 'fields'})`
+              : ''}
           </div>
+          ${this.violations?.length
+            ? html`
+              <ul class="help-box__violations">
+                ${this.violations.map(violation => html`<li>${violation}</li>`)}
+              </ul>`
+            : ''}
         </div>
         `
       : '';
@@ -1,5 +1,6 @@
+import {getHreflang, html, matchesGlob} from './utils';
+
 import {ExecutionContext} from 'ava';
-import {html} from './utils';
 import test from 'ava'
 
 test('html escaping', async (t: ExecutionContext) => {
@@ -8,3 +9,22 @@ test('html escaping', async (t: ExecutionContext) => {
   const result = html`${tag} is ${name}'s favorite HTML tag.`;
   t.deepEqual(result.toString(), `&lt;script&gt; is Foo's favorite HTML tag.`);
 });
+
+test('getHreflang', async (t: ExecutionContext) => {
+  t.is(getHreflang('en'), 'en');
+  t.is(getHreflang('en_US'), 'en-US');
+  t.is(getHreflang('en_ALL'), 'en');
+  t.is(getHreflang('es_419'), 'es-419');
+  t.is(getHreflang('zh_hant_tw'), 'zh-Hant-TW');
+  t.is(getHreflang('ALL'), undefined);
+  t.is(getHreflang('ALL_US'), undefined);
+});
+
+test('matchesGlob', async (t: ExecutionContext) => {
+  t.true(matchesGlob('/content/pages', '/content/pages'));
+  t.true(matchesGlob('/content/pages', '/content/pages/'));
+  t.true(matchesGlob('/content/landing-2021', '/content/landing-*'));
+  t.false(matchesGlob('/content/landing/foo', '/content/landing*'));
+  t.true(matchesGlob('/content/landing/foo', '/content/**'));
+  t.false(matchesGlob('/content/pages', '/content/press'));
+});
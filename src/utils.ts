@@ -1,3 +1,4 @@
+import {Locale} from '@amagaki/amagaki';
 import nunjucks from 'nunjucks';
 
 const SafeString = nunjucks.runtime.SafeString;
@@ -21,3 +22,51 @@ export const html = (literals: TemplateStringsArray, ...substitutions: unknown[]
 export const safeString = (value: string) => {
   return new SafeString(value);
 };
+
+/**
+ * Returns the BCP 47 language code used for `hreflang` attributes, given a
+ * locale. Locale IDs such as `en_US`, `en_ALL` and `zh_Hant_TW` become `en-US`,
+ * `en` and `zh-Hant-TW`. Returns `undefined` for locales without a language,
+ * such as `ALL` or `ALL_US`, as they can't be expressed as a language code.
+ */
+export const getHreflang = (locale: Locale | string) => {
+  const id = typeof locale === 'string' ? locale : locale.id;
+  const parts = id.split(/[_-]/).filter(part => part);
+  if (!parts.length || parts[0].toUpperCase() === 'ALL') {
+    return undefined;
+  }
+  const [language, ...subtags] = parts.filter(
+    part => part.toUpperCase() !== 'ALL'
+  );
+  return [
+    language.toLowerCase(),
+    ...subtags.map(subtag =>
+      subtag.length === 4
+        ? `${subtag[0].toUpperCase()}${subtag.slice(1).toLowerCase()}`
+        : subtag.toUpperCase()
+    ),
+  ].join('-');
+};
+
+/**
+ * Returns whether a path matches a glob pattern. `*` matches within a path
+ * segment, `**` matches across segments, and `?` matches a single character.
+ * Trailing slashes are ignored.
+ */
+export const matchesGlob = (path: string, pattern: string) => {
+  const normalize = (value: string) => value.replace(/\/+$/, '');
+  const source = normalize(pattern)
+    .split(/(\*\*|\*|\?)/)
+    .map(part => {
+      if (part === '**') {
+        return '.*';
+      } else if (part === '*') {
+        return '[^/]*';
+      } else if (part === '?') {
+        return '[^/]';
+      }
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`).test(normalize(path));
+};